@@ -2,6 +2,7 @@ import Phaser from "phaser";
 import { ConnectionPoint } from "./ConnectionPoint";
 import { BeltEndpoint } from "./BeltEndpoint";
 import { generateSmartPath, Point } from "../utils/BeltRouting";
+import { getBeltTier, DEFAULT_BELT_TIER, BeltTier } from "../utils/BeltTiers";
 
 /**
  * BeltConnection can be either a factory/junction ConnectionPoint or a free-standing BeltEndpoint
@@ -14,18 +15,27 @@ export type BeltConnection = ConnectionPoint | BeltEndpoint;
  * Automatically routes using orthogonal pathfinding.
  */
 export class Belt {
+    public readonly id: string; // Graph edge ID
     public readonly startPoint: BeltConnection;
     public readonly endPoint: BeltConnection;
 
     // Visual elements
     private graphics: Phaser.GameObjects.Graphics;
     private hitArea: Phaser.GameObjects.Graphics;
+    private rateLabel: Phaser.GameObjects.Text;
+    private transitGraphics: Phaser.GameObjects.Graphics; // Items in transit (time-stepped mode)
 
     // Path waypoints
     public path: Point[] = [];
 
     // Belt properties
     public layer: number = 0; // For crossing belts at different heights (0, 1, 2)
+    public tier: number = DEFAULT_BELT_TIER; // Mk1-Mk6, caps throughput
+
+    // Flow state (set by the FlowSystem)
+    public item: string | null = null;
+    public rate: number = 0; // Items per minute
+    public saturated: boolean = false; // Running at tier capacity (bottleneck)
 
     // Selection state
     private isSelected: boolean = false;
@@ -35,14 +45,18 @@ export class Belt {
 
     constructor(
         scene: Phaser.Scene,
+        id: string,
         startPoint: BeltConnection,
         endPoint: BeltConnection,
-        layer: number = 0
+        layer: number = 0,
+        tier: number = DEFAULT_BELT_TIER
     ) {
+        this.id = id;
         this.scene = scene;
         this.startPoint = startPoint;
         this.endPoint = endPoint;
         this.layer = layer;
+        this.tier = tier;
 
         // Create graphics for rendering
         this.graphics = scene.add.graphics();
@@ -52,6 +66,19 @@ export class Belt {
         this.hitArea = scene.add.graphics();
         this.hitArea.setDepth(50 + layer * 10);
 
+        // Create rate label (hidden until the belt carries something)
+        this.rateLabel = scene.add.text(0, 0, '', {
+            fontSize: '10px',
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            backgroundColor: '#000000aa',
+            padding: { x: 2, y: 1 }
+        }).setOrigin(0.5).setDepth(55 + layer * 10).setVisible(false);
+
+        // Create item markers (empty unless the time-stepped simulation runs)
+        this.transitGraphics = scene.add.graphics();
+        this.transitGraphics.setDepth(52 + layer * 10);
+
         // Mark connection points as connected
         this.startPoint.setConnected(this);
         this.endPoint.setConnected(this);
@@ -89,15 +116,20 @@ export class Belt {
 
         if (this.path.length < 2) return;
 
-        // Determine color based on layer (for visual distinction)
-        const layerColors = [0x999999, 0xaaaaaa, 0xbbbbbb];
-        const baseColor = layerColors[this.layer] || 0x999999;
-        const width = 6;
+        // Determine color based on tier (for visual distinction)
+        const baseColor = this.getTierInfo().color;
+        const width = this.lineWidth;
 
         // Draw hit area (thicker, invisible)
         this.hitArea.lineStyle(width + 10, 0xff0000, 0); // Invisible but interactive
         this.drawPath(this.hitArea);
 
+        // Draw bottleneck glow (belt is running at its tier cap)
+        if (this.saturated) {
+            this.graphics.lineStyle(width + 6, 0xff3333, 0.7);
+            this.drawPath(this.graphics);
+        }
+
         // Draw selection highlight
         if (this.isSelected) {
             this.graphics.lineStyle(width + 4, 0xffff00, 0.6);
@@ -117,6 +149,105 @@ export class Belt {
 
         // Draw directional arrows along the path
         this.drawDirectionArrows();
+
+        // Keep the rate label at the middle of the path
+        this.positionRateLabel();
+    }
+
+    /**
+     * Length of the path in pixels
+     */
+    public get length(): number {
+        let totalLength = 0;
+        for (let i = 1; i < this.path.length; i++) {
+            const dx = this.path[i].x - this.path[i - 1].x;
+            const dy = this.path[i].y - this.path[i - 1].y;
+            totalLength += Math.sqrt(dx * dx + dy * dy);
+        }
+        return totalLength;
+    }
+
+    /**
+     * Place the rate label halfway along the path
+     */
+    private positionRateLabel(): void {
+        const mid = this.getPointAlongPath(this.length / 2);
+        if (mid) {
+            this.rateLabel.setPosition(mid.x, mid.y);
+        }
+    }
+
+    /**
+     * Update the carried item and rate (computed by the FlowSystem)
+     */
+    public setFlow(item: string | null, rate: number, saturated: boolean = false): void {
+        const redraw = saturated !== this.saturated;
+
+        this.item = item;
+        this.rate = rate;
+        this.saturated = saturated;
+
+        if (item && rate > 0) {
+            const capacity = this.getTierInfo().capacity;
+            this.rateLabel.setText(`${item}: ${Number(rate.toFixed(1))}/${capacity} ${this.unit}`);
+            this.rateLabel.setColor(saturated ? '#ff6666' : '#ffffff');
+            this.rateLabel.setVisible(true);
+        } else {
+            this.rateLabel.setVisible(false);
+        }
+
+        if (redraw) {
+            this.draw();
+        }
+    }
+
+    /**
+     * Draw the items travelling along the belt (time-stepped simulation)
+     * @param distances - Pixels from the start of the path, one per item
+     */
+    public setTransit(distances: number[]): void {
+        this.transitGraphics.clear();
+        if (distances.length === 0) return;
+
+        this.transitGraphics.fillStyle(this.transitColor, 1);
+        this.transitGraphics.lineStyle(1, 0x000000, 0.8);
+        const length = this.length;
+        distances.forEach(distance => {
+            const point = this.getPointAlongPath(Math.min(distance, length));
+            if (!point) return;
+            this.transitGraphics.fillCircle(point.x, point.y, 3);
+            this.transitGraphics.strokeCircle(point.x, point.y, 3);
+        });
+    }
+
+    /**
+     * Change belt tier (Mk1-Mk6)
+     */
+    public setTier(tier: number): void {
+        this.tier = this.getTierInfo(tier).tier;
+        this.draw();
+    }
+
+    /**
+     * Tier definition (the current tier by default)
+     */
+    public getTierInfo(tier: number = this.tier): BeltTier {
+        return getBeltTier(tier);
+    }
+
+    /**
+     * Unit of the rate label
+     */
+    protected get unit(): string {
+        return 'per min';
+    }
+
+    protected get lineWidth(): number {
+        return 6;
+    }
+
+    protected get transitColor(): number {
+        return 0xffffff;
     }
 
     /**
@@ -140,13 +271,7 @@ export class Belt {
         const arrowSpacing = 40;
         const arrowSize = 6;
 
-        // Calculate total path length
-        let totalLength = 0;
-        for (let i = 1; i < this.path.length; i++) {
-            const dx = this.path[i].x - this.path[i - 1].x;
-            const dy = this.path[i].y - this.path[i - 1].y;
-            totalLength += Math.sqrt(dx * dx + dy * dy);
-        }
+        const totalLength = this.length;
 
         // Draw arrows at intervals
         let currentLength = arrowSpacing / 2;
@@ -300,6 +425,8 @@ export class Belt {
         this.layer = Phaser.Math.Clamp(layer, 0, 2);
         this.graphics.setDepth(50 + this.layer * 10);
         this.hitArea.setDepth(50 + this.layer * 10);
+        this.rateLabel.setDepth(55 + this.layer * 10);
+        this.transitGraphics.setDepth(52 + this.layer * 10);
         this.draw();
     }
 
@@ -315,11 +442,18 @@ export class Belt {
      */
     public destroyBelt(): void {
         // Disconnect from connection points
-        this.startPoint.setConnected(null);
-        this.endPoint.setConnected(null);
+        [this.startPoint, this.endPoint].forEach(point => {
+            if (point instanceof BeltEndpoint) {
+                point.removeBelt(this);
+            } else {
+                point.setConnected(null);
+            }
+        });
 
         // Destroy graphics
         this.graphics.destroy();
         this.hitArea.destroy();
+        this.rateLabel.destroy();
+        this.transitGraphics.destroy();
     }
 }
@@ -6,15 +6,17 @@ import Phaser from 'phaser';
  * BeltEndpoint is a free-standing point that can be repositioned
  */
 export class BeltEndpoint extends Phaser.GameObjects.Container {
+    public readonly id: string; // Graph node ID
     private circle: Phaser.GameObjects.Graphics;
     private connectedBelts: Set<any>; // Belts connected to this endpoint
     private isDragging: boolean = false;
     private dragStartX: number = 0;
     private dragStartY: number = 0;
 
-    constructor(scene: Phaser.Scene, x: number, y: number) {
+    constructor(scene: Phaser.Scene, id: string, x: number, y: number) {
         super(scene, x, y);
 
+        this.id = id;
         this.connectedBelts = new Set();
 
         // Create visual representation
@@ -111,12 +113,17 @@ export class BeltEndpoint extends Phaser.GameObjects.Container {
     }
 
     public removeBelt(belt: any): void {
+        // Lifetime is owned by the GraphManager (orphaned endpoints are pruned there)
         this.connectedBelts.delete(belt);
+    }
 
-        // If no belts connected, remove this endpoint
-        if (this.connectedBelts.size === 0) {
-            this.destroy();
-        }
+    /**
+     * Move endpoint to an absolute position (used when the graph node moves)
+     */
+    public placeAt(x: number, y: number): void {
+        this.x = x;
+        this.y = y;
+        this.updateConnectedBelts();
     }
 
     /**
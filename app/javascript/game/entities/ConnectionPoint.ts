@@ -1,8 +1,9 @@
 import Phaser from "phaser";
 import { Belt } from "./Belt";
+import { ConnectionType, ConnectionSide } from "../managers/GraphManager";
+import { TransportType } from "../managers/DataManager";
 
-export type ConnectionType = 'INPUT' | 'OUTPUT';
-export type ConnectionSide = 'TOP' | 'RIGHT' | 'BOTTOM' | 'LEFT';
+export type { ConnectionType, ConnectionSide };
 
 export interface ConnectionPointOwner {
     x: number;
@@ -15,9 +16,12 @@ export interface ConnectionPointOwner {
  * Handles visual representation and connection management.
  */
 export class ConnectionPoint {
-    public readonly type: ConnectionType;
+    public readonly id: string; // Graph port ID
+    public type: ConnectionType;         // Only junction sides change type after creation
     public readonly side: ConnectionSide;
     public readonly owner: ConnectionPointOwner;
+    public readonly item: string | null; // Item this port accepts/produces (from the recipe)
+    public readonly transport: TransportType; // Pipe ports take pipes, belt ports belts
 
     // World position (calculated from owner position + offset)
     public x: number = 0;
@@ -26,6 +30,7 @@ export class ConnectionPoint {
     // Visual elements
     private circle: Phaser.GameObjects.Arc;
     private arrow?: Phaser.GameObjects.Triangle;
+    private label?: Phaser.GameObjects.Text;
 
     // Connection state
     public connectedBelt: Belt | null = null;
@@ -38,14 +43,20 @@ export class ConnectionPoint {
     constructor(
         scene: Phaser.Scene,
         owner: ConnectionPointOwner,
+        id: string,
         type: ConnectionType,
         side: ConnectionSide,
         offsetX: number,
-        offsetY: number
+        offsetY: number,
+        item: string | null = null,
+        transport: TransportType = 'belt'
     ) {
         this.owner = owner;
+        this.id = id;
         this.type = type;
         this.side = side;
+        this.item = item;
+        this.transport = transport;
         this.offsetX = offsetX;
         this.offsetY = offsetY;
 
@@ -55,13 +66,19 @@ export class ConnectionPoint {
         // Create visual representation
         const color = type === 'INPUT' ? 0x44ff44 : 0xff4444;
         this.circle = scene.add.circle(this.x, this.y, 6, color);
-        this.circle.setStrokeStyle(2, 0xffffff);
+        this.circle.setStrokeStyle(transport === 'pipe' ? 3 : 2, transport === 'pipe' ? 0x33ccff : 0xffffff); // Pipe ports get a blue ring
         this.circle.setDepth(100);
         this.circle.setAlpha(0.8);
 
         // Add directional arrow indicator
         this.arrow = this.createArrow(scene);
 
+        // Add item label (outside the owner, next to the port)
+        if (item) {
+            this.label = this.createLabel(scene, item);
+            this.updatePosition();
+        }
+
         // Make interactive
         this.circle.setInteractive({ cursor: 'pointer' });
     }
@@ -106,6 +123,27 @@ export class ConnectionPoint {
         return arrow;
     }
 
+    private createLabel(scene: Phaser.Scene, item: string): Phaser.GameObjects.Text {
+        const label = scene.add.text(this.x, this.y, item, {
+            fontSize: '9px',
+            fontFamily: 'Arial',
+            color: this.type === 'INPUT' ? '#88ff88' : '#ff8888',
+            backgroundColor: '#000000aa',
+            padding: { x: 2, y: 1 }
+        });
+        label.setDepth(101);
+
+        // Anchor the label on the outer side of the port
+        switch (this.side) {
+            case 'TOP': label.setOrigin(0.5, 1); break;
+            case 'RIGHT': label.setOrigin(0, 0.5); break;
+            case 'BOTTOM': label.setOrigin(0.5, 0); break;
+            case 'LEFT': label.setOrigin(1, 0.5); break;
+        }
+
+        return label;
+    }
+
     /**
      * Update world position based on owner's current position
      */
@@ -119,6 +157,12 @@ export class ConnectionPoint {
         if (this.arrow) {
             this.arrow.setPosition(this.x, this.y);
         }
+        if (this.label) {
+            const gap = 10;
+            const dx = this.side === 'LEFT' ? -gap : this.side === 'RIGHT' ? gap : 0;
+            const dy = this.side === 'TOP' ? -gap : this.side === 'BOTTOM' ? gap : 0;
+            this.label.setPosition(this.x + dx, this.y + dy);
+        }
     }
 
     /**
@@ -135,6 +179,16 @@ export class ConnectionPoint {
             return false;
         }
 
+        // Belts and pipes don't mix
+        if (this.transport !== other.transport) {
+            return false;
+        }
+
+        // Recipe ports only take their own item
+        if (this.item && other.item && this.item !== other.item) {
+            return false;
+        }
+
         // Can't have multiple connections (for now)
         if (this.connectedBelt !== null || other.connectedBelt !== null) {
             return false;
@@ -152,6 +206,19 @@ export class ConnectionPoint {
         this.owner.onConnectionChanged?.();
     }
 
+    /**
+     * Turn the point into an input or output (reconfigured junction side)
+     */
+    public setType(type: ConnectionType): void {
+        if (type === this.type) return;
+
+        this.type = type;
+        this.arrow?.destroy();
+        this.arrow = this.createArrow(this.circle.scene);
+        this.label?.setColor(type === 'INPUT' ? '#88ff88' : '#ff8888');
+        this.updateVisuals();
+    }
+
     /**
      * Set hover state for visual feedback
      */
@@ -204,6 +271,7 @@ export class ConnectionPoint {
     public destroy(): void {
         this.circle.destroy();
         this.arrow?.destroy();
+        this.label?.destroy();
     }
 
     /**
@@ -1,11 +1,15 @@
 import Phaser from "phaser";
 import { ConnectionPoint, ConnectionPointOwner, ConnectionType, ConnectionSide } from "./ConnectionPoint";
+import { DataManager, RecipeDef } from "../managers/DataManager";
+import { GraphNode, GraphPort } from "../managers/GraphManager";
+import { getAmplification } from "../utils/Somersloops";
 
 /**
  * Represents a factory building with inputs and outputs.
- * Automatically creates connection points based on configuration.
+ * Renders a FACTORY node from the GraphManager and creates a connection point per port.
  */
 export class Factory extends Phaser.GameObjects.Container implements ConnectionPointOwner {
+    public readonly id: string; // Graph node ID
     public readonly name: string;
     public readonly gridWidth: number;
     public readonly gridHeight: number;
@@ -14,35 +18,43 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
     // Visual elements
     private background: Phaser.GameObjects.Rectangle;
     private label: Phaser.GameObjects.Text;
+    private statusText: Phaser.GameObjects.Text;
+    private fillBar: Phaser.GameObjects.Rectangle;   // Storage fill level (hidden for other machines)
     private highlight: Phaser.GameObjects.Rectangle;
 
     // Connection points
     public inputs: ConnectionPoint[] = [];
     public outputs: ConnectionPoint[] = [];
 
+    // Production state (set by the FlowSystem)
+    public recipe: RecipeDef | null = null;
+    public clockSpeed: number;
+    public amplification: number; // Output multiplier from somersloops
+    public efficiency: number = 0;
+    private tripped: boolean = false;
+
     // Selection state
     private isSelected: boolean = false;
 
     constructor(
         scene: Phaser.Scene,
-        x: number,
-        y: number,
-        name: string,
-        gridWidth: number,
-        gridHeight: number,
-        tileSize: number,
-        inputCount: number,
-        outputCount: number
+        node: GraphNode,
+        ports: GraphPort[],
+        tileSize: number
     ) {
-        super(scene, x, y);
+        super(scene, node.x, node.y);
 
-        this.name = name;
-        this.gridWidth = gridWidth;
-        this.gridHeight = gridHeight;
+        this.id = node.id;
+        this.name = node.machine || 'Factory';
+        this.gridWidth = node.gridWidth;
+        this.gridHeight = node.gridHeight;
         this.tileSize = tileSize;
+        this.recipe = node.recipe;
+        this.clockSpeed = node.clockSpeed;
+        this.amplification = getAmplification(node.somersloops, DataManager.getInstance().getSomersloopSlots(this.name));
 
-        const pixelWidth = gridWidth * tileSize;
-        const pixelHeight = gridHeight * tileSize;
+        const pixelWidth = this.gridWidth * tileSize;
+        const pixelHeight = this.gridHeight * tileSize;
 
         // Set container size (for bounds checking)
         this.setSize(pixelWidth, pixelHeight);
@@ -61,7 +73,7 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
         this.label = scene.add.text(
             pixelWidth / 2,
             pixelHeight / 2,
-            name,
+            this.name,
             {
                 fontSize: '12px',
                 fontFamily: 'Arial',
@@ -70,6 +82,22 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
             }
         ).setOrigin(0.5);
 
+        // Create efficiency readout (below the label)
+        this.statusText = scene.add.text(
+            pixelWidth / 2,
+            pixelHeight / 2 + 14,
+            '',
+            {
+                fontSize: '10px',
+                fontFamily: 'Arial',
+                color: '#ffffff'
+            }
+        ).setOrigin(0.5);
+
+        // Create fill indicator (along the bottom edge, grows to the right)
+        this.fillBar = scene.add.rectangle(4, pixelHeight - 10, pixelWidth - 8, 6, 0x44ff44).setOrigin(0, 0.5);
+        this.fillBar.setVisible(false);
+
         // Create selection highlight
         this.highlight = scene.add.rectangle(
             pixelWidth / 2,
@@ -83,48 +111,54 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
         this.highlight.setVisible(false);
 
         // Add to container
-        this.add([this.highlight, this.background, this.label]);
+        this.add([this.highlight, this.background, this.fillBar, this.label, this.statusText]);
 
         // Add to scene
         scene.add.existing(this);
 
         // Create connection points
-        this.createConnectionPoints(scene, inputCount, outputCount, pixelWidth, pixelHeight);
+        this.createConnectionPoints(scene, ports, pixelWidth, pixelHeight);
 
         // Make the factory itself interactive (for selection/dragging)
         this.background.setInteractive({ cursor: 'move' });
     }
 
     /**
-     * Creates input and output connection points distributed intelligently around factory edges.
-     * Rules:
-     * - 1xN machines: inputs on top short side, outputs on bottom short side
-     * - Nx1 machines: inputs on left short side, outputs on right short side
-     * - Square/rectangular (2x2+): inputs on left long side, outputs on right long side
+     * Creates a connection point for every graph port, distributed evenly along its side.
+     * Which side each port sits on is decided by the GraphManager.
      */
     private createConnectionPoints(
         scene: Phaser.Scene,
-        inputCount: number,
-        outputCount: number,
+        ports: GraphPort[],
         pixelWidth: number,
         pixelHeight: number
     ): void {
-        const isVertical = this.gridWidth === 1 && this.gridHeight > 1;  // 1xN (tall)
-        const isHorizontal = this.gridHeight === 1 && this.gridWidth > 1; // Nx1 (wide)
-
-        if (isVertical) {
-            // 1xN machine: inputs on TOP, outputs on BOTTOM
-            this.createConnectionsOnSide(scene, 'INPUT', 'TOP', inputCount, pixelWidth, -2);
-            this.createConnectionsOnSide(scene, 'OUTPUT', 'BOTTOM', outputCount, pixelWidth, pixelHeight + 2);
-        } else if (isHorizontal) {
-            // Nx1 machine: inputs on LEFT, outputs on RIGHT
-            this.createConnectionsOnSide(scene, 'INPUT', 'LEFT', inputCount, pixelHeight, -2);
-            this.createConnectionsOnSide(scene, 'OUTPUT', 'RIGHT', outputCount, pixelHeight, pixelWidth + 2);
-        } else {
-            // Square or rectangular: inputs on LEFT, outputs on RIGHT (default)
-            this.createConnectionsOnSide(scene, 'INPUT', 'LEFT', inputCount, pixelHeight, -2);
-            this.createConnectionsOnSide(scene, 'OUTPUT', 'RIGHT', outputCount, pixelHeight, pixelWidth + 2);
-        }
+        const sides: ConnectionSide[] = ['TOP', 'RIGHT', 'BOTTOM', 'LEFT'];
+
+        sides.forEach(side => {
+            const sidePorts = ports.filter(port => port.side === side);
+            if (sidePorts.length === 0) return;
+
+            switch (side) {
+                case 'TOP':
+                    this.createConnectionsOnSide(scene, sidePorts, side, pixelWidth, -2);
+                    break;
+                case 'BOTTOM':
+                    this.createConnectionsOnSide(scene, sidePorts, side, pixelWidth, pixelHeight + 2);
+                    break;
+                case 'LEFT':
+                    this.createConnectionsOnSide(scene, sidePorts, side, pixelHeight, -2);
+                    break;
+                case 'RIGHT':
+                    this.createConnectionsOnSide(scene, sidePorts, side, pixelHeight, pixelWidth + 2);
+                    break;
+            }
+        });
+
+        // Keep inputs/outputs in port index order (matches recipe ingredient order)
+        const indexOf = new Map(ports.map(port => [port.id, port.index]));
+        this.inputs.sort((a, b) => indexOf.get(a.id)! - indexOf.get(b.id)!);
+        this.outputs.sort((a, b) => indexOf.get(a.id)! - indexOf.get(b.id)!);
     }
 
     /**
@@ -134,15 +168,15 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
      */
     private createConnectionsOnSide(
         scene: Phaser.Scene,
-        type: ConnectionType,
+        ports: GraphPort[],
         side: ConnectionSide,
-        count: number,
         sideLength: number,
         perpendicularOffset: number
     ): void {
         const isHorizontalSide = side === 'TOP' || side === 'BOTTOM';
+        const count = ports.length;
 
-        for (let i = 0; i < count; i++) {
+        ports.forEach((port, i) => {
             // Distribute evenly along the side
             const spacing = sideLength / (count + 1);
             const position = spacing * (i + 1);
@@ -164,18 +198,21 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
             const point = new ConnectionPoint(
                 scene,
                 this,
-                type,
+                port.id,
+                port.type,
                 side,
                 offsetX,
-                offsetY
+                offsetY,
+                port.item,
+                port.transport
             );
 
-            if (type === 'INPUT') {
+            if (port.type === 'INPUT') {
                 this.inputs.push(point);
             } else {
                 this.outputs.push(point);
             }
-        }
+        });
     }
 
     /**
@@ -194,6 +231,15 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
         this.updateConnectionPoints();
     }
 
+    /**
+     * Move factory to an absolute position (used when the graph node moves)
+     */
+    public placeAt(x: number, y: number): void {
+        this.x = x;
+        this.y = y;
+        this.updateConnectionPoints();
+    }
+
     /**
      * Snap factory to grid
      */
@@ -217,6 +263,78 @@ export class Factory extends Phaser.GameObjects.Container implements ConnectionP
         }
     }
 
+    /**
+     * Update efficiency readout (0-1, computed by the FlowSystem)
+     * @param tripped - The factory's power grid blew its fuse
+     */
+    public setEfficiency(efficiency: number, tripped: boolean = false): void {
+        this.efficiency = efficiency;
+        this.tripped = tripped;
+
+        if (!this.recipe) {
+            this.statusText.setText('');
+            return;
+        }
+
+        if (tripped) {
+            this.statusText.setText('Fuse tripped');
+            this.statusText.setColor('#ff4444');
+            return;
+        }
+
+        // Clock speed and amplification shown only when they change the rates
+        const clock = this.clockSpeed === 100 ? '' : ` @${Number(this.clockSpeed.toFixed(1))}%`;
+        const amplified = this.amplification === 1 ? '' : ` ×${Number(this.amplification.toFixed(2))}`;
+        this.statusText.setText(`${Math.round(efficiency * 100)}%${clock}${amplified}`);
+
+        if (efficiency >= 0.999) {
+            this.statusText.setColor('#44ff44'); // Running at full speed
+        } else if (efficiency > 0) {
+            this.statusText.setColor('#ffaa00'); // Starved
+        } else {
+            this.statusText.setColor('#ff4444'); // Stopped
+        }
+    }
+
+    /**
+     * Take over the node's clock speed and somersloops and redraw the readout
+     */
+    public setSettings(node: GraphNode): void {
+        this.clockSpeed = node.clockSpeed;
+        this.amplification = getAmplification(node.somersloops, DataManager.getInstance().getSomersloopSlots(this.name));
+        if (this.recipe) this.setEfficiency(this.efficiency, this.tripped);
+    }
+
+    /**
+     * Replace the efficiency readout with free text (e.g. what a sink takes in)
+     */
+    public setStatus(text: string, color: string = '#ffffff'): void {
+        this.statusText.setText(text);
+        this.statusText.setColor(color);
+    }
+
+    /**
+     * Show how full a storage is (0-1), or hide the indicator with null
+     */
+    public setFill(fill: number | null): void {
+        if (fill === null) {
+            this.fillBar.setVisible(false);
+            return;
+        }
+
+        const clamped = Math.max(0, Math.min(1, fill));
+        this.fillBar.setVisible(true);
+        this.fillBar.setScale(clamped, 1);
+
+        if (clamped >= 0.999) {
+            this.fillBar.setFillStyle(0xff4444); // Full: the input backs up
+        } else if (clamped >= 0.75) {
+            this.fillBar.setFillStyle(0xffaa00);
+        } else {
+            this.fillBar.setFillStyle(0x44ff44);
+        }
+    }
+
     /**
      * Check if point is inside factory bounds
      */
@@ -1,38 +1,49 @@
 import Phaser from "phaser";
-import { ConnectionPoint, ConnectionPointOwner, ConnectionType } from "./ConnectionPoint";
+import { ConnectionPoint, ConnectionPointOwner, ConnectionType, ConnectionSide } from "./ConnectionPoint";
+import { GraphNode, GraphPort } from "../managers/GraphManager";
+import { TransportType } from "../managers/DataManager";
 
 /**
- * Represents a junction node for splitting and merging belts.
- * Has 4 connection points (one per side) that auto-configure as inputs/outputs.
+ * Represents a junction node for splitting and merging belts (or pipes, for a pipe junction).
+ * Has 4 connection points (one per side); each side can be an input or an output
+ * (it turns around when a belt attaches from the other direction, or via the inspector).
  * Maximum of 4 connections, can handle 1→3 split, 3→1 merge, 2→2, etc.
  */
 export class Junction extends Phaser.GameObjects.Container implements ConnectionPointOwner {
+    public readonly id: string; // Graph node ID
+    public readonly transport: TransportType; // Pipe junctions only join pipes
     private readonly tileSize: number;
 
     // Visual elements
-    private background: Phaser.GameObjects.Arc;
-    private highlight: Phaser.GameObjects.Arc;
+    private background: Phaser.GameObjects.Shape;
+    private highlight: Phaser.GameObjects.Shape;
 
     // Connection points (one per cardinal direction)
     public connectionPoints: Map<string, ConnectionPoint> = new Map();
 
+    // Items per minute through each connected side (from the flow solver)
+    public sideRates: Map<ConnectionSide, number> = new Map();
+    private rateLabels: Map<ConnectionSide, Phaser.GameObjects.Text> = new Map();
+
     // Selection state
     private isSelected: boolean = false;
 
     // Size in pixels
     private readonly size: number = 24;
 
-    constructor(scene: Phaser.Scene, x: number, y: number, tileSize: number) {
-        super(scene, x, y);
+    constructor(scene: Phaser.Scene, node: GraphNode, ports: GraphPort[], tileSize: number) {
+        super(scene, node.x, node.y);
 
+        this.id = node.id;
+        this.transport = ports[0]?.transport ?? 'belt';
         this.tileSize = tileSize;
 
-        // Create circular background
-        this.background = scene.add.circle(0, 0, this.size / 2, 0x888888);
-        this.background.setStrokeStyle(3, 0xffffff, 0.8);
+        // Create background
+        this.background = this.createShape(scene, this.size, 0x888888);
+        this.background.setStrokeStyle(3, this.outlineColor, 0.8);
 
         // Create selection highlight
-        this.highlight = scene.add.circle(0, 0, this.size / 2 + 4, 0xffff00, 0);
+        this.highlight = this.createShape(scene, this.size + 8, 0xffff00, 0);
         this.highlight.setStrokeStyle(3, 0xffff00, 1);
         this.highlight.setVisible(false);
 
@@ -43,7 +54,7 @@ export class Junction extends Phaser.GameObjects.Container implements Connection
         scene.add.existing(this);
 
         // Create connection points on all 4 sides
-        this.createConnectionPoints(scene);
+        this.createConnectionPoints(scene, ports);
 
         // Make interactive
         this.background.setInteractive({ cursor: 'move' });
@@ -52,28 +63,77 @@ export class Junction extends Phaser.GameObjects.Container implements Connection
         this.setSize(this.size, this.size);
     }
 
+    /**
+     * Body shape (junctions are round)
+     */
+    protected createShape(scene: Phaser.Scene, diameter: number, color: number, alpha: number = 1): Phaser.GameObjects.Shape {
+        return scene.add.circle(0, 0, diameter / 2, color, alpha);
+    }
+
     /**
      * Create connection points on all four cardinal directions.
-     * They start as neutral and auto-configure based on connections.
+     * Each side's direction (input/output) comes from the graph port.
      */
-    private createConnectionPoints(scene: Phaser.Scene): void {
+    private createConnectionPoints(scene: Phaser.Scene, ports: GraphPort[]): void {
         const offset = this.size / 2 + 4;
+        const offsets: Record<ConnectionSide, { x: number, y: number }> = {
+            TOP: { x: 0, y: -offset },
+            RIGHT: { x: offset, y: 0 },
+            BOTTOM: { x: 0, y: offset },
+            LEFT: { x: -offset, y: 0 }
+        };
+
+        ports.forEach(port => {
+            if (!port.side) return;
+
+            const { x, y } = offsets[port.side];
+            const point = new ConnectionPoint(scene, this, port.id, port.type, port.side, x, y, null, port.transport);
+            this.connectionPoints.set(port.side, point);
+
+            // Rate label just outside the connection point, pointing away from the junction
+            const label = scene.add.text(x * 1.4, y * 1.4, '', {
+                fontSize: '10px',
+                color: '#ffffff',
+                backgroundColor: '#000000aa',
+                padding: { x: 2, y: 1 }
+            });
+            label.setOrigin(x > 0 ? 0 : x < 0 ? 1 : 0.5, y > 0 ? 0 : y < 0 ? 1 : 0.5);
+            label.setVisible(false);
+            this.add(label);
+            this.rateLabels.set(port.side, label);
+        });
+    }
 
-        // Top
-        const top = new ConnectionPoint(scene, this, 'INPUT', 'TOP', 0, -offset);
-        this.connectionPoints.set('TOP', top);
-
-        // Right
-        const right = new ConnectionPoint(scene, this, 'OUTPUT', 'RIGHT', offset, 0);
-        this.connectionPoints.set('RIGHT', right);
+    /**
+     * Apply side directions after the graph reconfigured the junction's ports
+     */
+    public syncPorts(ports: GraphPort[]): void {
+        ports.forEach(port => {
+            if (port.side) this.connectionPoints.get(port.side)?.setType(port.type);
+        });
+        this.setSideRates(this.sideRates);
+        this.onConnectionChanged();
+    }
 
-        // Bottom
-        const bottom = new ConnectionPoint(scene, this, 'OUTPUT', 'BOTTOM', 0, offset);
-        this.connectionPoints.set('BOTTOM', bottom);
+    /**
+     * Show the items per minute passing through each connected side
+     */
+    public setSideRates(rates: Map<ConnectionSide, number>): void {
+        this.sideRates = rates;
+
+        this.rateLabels.forEach((label, side) => {
+            const point = this.connectionPoints.get(side);
+            const rate = rates.get(side);
+            if (!point?.connectedBelt || rate === undefined) {
+                label.setVisible(false);
+                return;
+            }
 
-        // Left
-        const left = new ConnectionPoint(scene, this, 'INPUT', 'LEFT', -offset, 0);
-        this.connectionPoints.set('LEFT', left);
+            // Same colours as the placement ghost: inputs green, outputs red
+            label.setText(String(Number(rate.toFixed(1))));
+            label.setColor(point.type === 'INPUT' ? '#88ff88' : '#ff8888');
+            label.setVisible(true);
+        });
     }
 
     /**
@@ -92,6 +152,15 @@ export class Junction extends Phaser.GameObjects.Container implements Connection
         this.updateConnectionPoints();
     }
 
+    /**
+     * Move junction to an absolute position (used when the graph node moves)
+     */
+    public placeAt(x: number, y: number): void {
+        this.x = x;
+        this.y = y;
+        this.updateConnectionPoints();
+    }
+
     /**
      * Snap to grid (junctions snap to tile centers)
      */
@@ -116,10 +185,17 @@ export class Junction extends Phaser.GameObjects.Container implements Connection
         if (selected) {
             this.background.setStrokeStyle(3, 0xffff00, 1);
         } else {
-            this.background.setStrokeStyle(3, 0xffffff, 0.8);
+            this.background.setStrokeStyle(3, this.outlineColor, 0.8);
         }
     }
 
+    /**
+     * Pipe junctions have a blue outline like pipe ports
+     */
+    private get outlineColor(): number {
+        return this.transport === 'pipe' ? 0x33ccff : 0xffffff;
+    }
+
     /**
      * Check if point is inside junction bounds
      */
@@ -178,9 +254,9 @@ export class Junction extends Phaser.GameObjects.Container implements Connection
         // Change color based on connection type
         if (total === 0) {
             this.background.setFillStyle(0x888888); // Neutral gray
-        } else if (inputs > outputs) {
-            this.background.setFillStyle(0x44ff44); // Green for splitter
         } else if (outputs > inputs) {
+            this.background.setFillStyle(0x44ff44); // Green for splitter
+        } else if (inputs > outputs) {
             this.background.setFillStyle(0xff4444); // Red for merger
         } else {
             this.background.setFillStyle(0x4488ff); // Blue for balanced
@@ -190,7 +266,7 @@ export class Junction extends Phaser.GameObjects.Container implements Connection
     /**
      * Get interactive object
      */
-    public getInteractiveObject(): Phaser.GameObjects.Arc {
+    public getInteractiveObject(): Phaser.GameObjects.Shape {
         return this.background;
     }
 
@@ -0,0 +1,25 @@
+import { Belt } from "./Belt";
+import { getPipeTier, PipeTier } from "../utils/PipeTiers";
+
+/**
+ * A pipeline between two pipe ports (fluids only).
+ * Routed, selected and labelled like a belt, but drawn thicker with the
+ * pipe tier colours (Mk1-Mk2) and rated in m³ per minute.
+ */
+export class Pipe extends Belt {
+    public override getTierInfo(tier: number = this.tier): PipeTier {
+        return getPipeTier(tier);
+    }
+
+    protected override get unit(): string {
+        return 'm³/min';
+    }
+
+    protected override get lineWidth(): number {
+        return 9;
+    }
+
+    protected override get transitColor(): number {
+        return 0x66ccff;
+    }
+}
@@ -0,0 +1,84 @@
+import Phaser from "phaser";
+import { GraphNode } from "../managers/GraphManager";
+
+/**
+ * Power pole: joins power wires into a grid. Takes no belts.
+ * Positioned by its center on a single tile, like a junction.
+ */
+export class PowerPole extends Phaser.GameObjects.Container {
+    public readonly id: string; // Graph node ID
+    private readonly tileSize: number;
+
+    // Visual elements
+    private background: Phaser.GameObjects.Rectangle;
+    private highlight: Phaser.GameObjects.Rectangle;
+
+    // Size in pixels
+    private readonly size: number = 16;
+
+    constructor(scene: Phaser.Scene, node: GraphNode, tileSize: number) {
+        super(scene, node.x, node.y);
+
+        this.id = node.id;
+        this.tileSize = tileSize;
+
+        // Diamond body (rotated square)
+        this.background = scene.add.rectangle(0, 0, this.size, this.size, 0xddcc33);
+        this.background.setStrokeStyle(2, 0xffffff, 0.8);
+        this.background.setAngle(45);
+
+        // Selection highlight
+        this.highlight = scene.add.rectangle(0, 0, this.size + 8, this.size + 8, 0xffff00, 0);
+        this.highlight.setStrokeStyle(3, 0xffff00, 1);
+        this.highlight.setAngle(45);
+        this.highlight.setVisible(false);
+
+        this.add([this.highlight, this.background]);
+        scene.add.existing(this);
+
+        this.background.setInteractive({ cursor: 'move' });
+        this.setSize(this.size, this.size);
+        this.setDepth(70); // Above belts, so wires can be dragged from it
+    }
+
+    public moveBy(dx: number, dy: number): void {
+        this.x += dx;
+        this.y += dy;
+    }
+
+    /**
+     * Move to an absolute position (used when the graph node moves)
+     */
+    public placeAt(x: number, y: number): void {
+        this.x = x;
+        this.y = y;
+    }
+
+    /**
+     * Snap to grid (poles snap to tile centers)
+     */
+    public snapToGrid(): void {
+        const half = this.tileSize / 2;
+        this.x = Math.round((this.x - half) / this.tileSize) * this.tileSize + half;
+        this.y = Math.round((this.y - half) / this.tileSize) * this.tileSize + half;
+    }
+
+    public setSelected(selected: boolean): void {
+        this.highlight.setVisible(selected);
+        this.background.setStrokeStyle(2, selected ? 0xffff00 : 0xffffff, selected ? 1 : 0.8);
+    }
+
+    /**
+     * Grey out the pole while its grid's fuse is tripped
+     */
+    public setTripped(tripped: boolean): void {
+        this.background.setFillStyle(tripped ? 0x777766 : 0xddcc33);
+    }
+
+    /**
+     * Check if point is inside the pole (with some padding for easier clicking)
+     */
+    public containsPoint(worldX: number, worldY: number): boolean {
+        return Phaser.Math.Distance.Between(worldX, worldY, this.x, this.y) <= this.size / 2 + 6;
+    }
+}
@@ -0,0 +1,110 @@
+import Phaser from "phaser";
+import { GraphNode } from "../managers/GraphManager";
+import { Purity, PURITY_LABELS, getResourceType } from "../utils/ResourceNodes";
+
+// Outline per purity (pure nodes stand out)
+const PURITY_COLORS: Record<Purity, number> = {
+    IMPURE: 0xaa6666,
+    NORMAL: 0xffffff,
+    PURE: 0xffdd33
+};
+
+/**
+ * Resource node on the map: a single tile that extractors are placed over.
+ * Drawn below the grid lines and buildings, so an extractor covers it.
+ */
+export class ResourceNode extends Phaser.GameObjects.Container {
+    public readonly id: string; // Graph node ID
+    public resource: string;
+    public purity: Purity;
+    private readonly tileSize: number;
+
+    // Visual elements
+    private background: Phaser.GameObjects.Arc;
+    private highlight: Phaser.GameObjects.Arc;
+    private label: Phaser.GameObjects.Text;
+
+    private isSelected: boolean = false;
+
+    constructor(scene: Phaser.Scene, node: GraphNode, tileSize: number) {
+        super(scene, node.x, node.y);
+
+        this.id = node.id;
+        this.resource = node.resource ?? '';
+        this.purity = node.purity;
+        this.tileSize = tileSize;
+
+        const radius = tileSize * 0.45;
+        this.background = scene.add.circle(0, 0, radius, 0x888888);
+
+        this.highlight = scene.add.circle(0, 0, radius + 4, 0xffff00, 0);
+        this.highlight.setStrokeStyle(3, 0xffff00, 1);
+        this.highlight.setVisible(false);
+
+        this.label = scene.add.text(0, 0, '', {
+            fontSize: '9px',
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff'
+        }).setOrigin(0.5);
+
+        this.add([this.highlight, this.background, this.label]);
+        scene.add.existing(this);
+
+        this.background.setInteractive({ cursor: 'move' });
+        this.setSize(tileSize, tileSize);
+        this.setDepth(-1);
+
+        this.setResource(this.resource, this.purity);
+    }
+
+    /**
+     * Show a new resource or purity (initials of the item, then the purity's first letter)
+     */
+    public setResource(resource: string, purity: Purity): void {
+        this.resource = resource;
+        this.purity = purity;
+
+        const initials = resource.split(' ').map(word => word[0]).join('');
+        this.background.setFillStyle(getResourceType(resource)?.color ?? 0x888888);
+        this.label.setText(`${initials}\n${PURITY_LABELS[purity][0]}`);
+        this.label.setAlign('center');
+        this.updateOutline();
+    }
+
+    public moveBy(dx: number, dy: number): void {
+        this.x += dx;
+        this.y += dy;
+    }
+
+    /**
+     * Move to an absolute position (used when the graph node moves)
+     */
+    public placeAt(x: number, y: number): void {
+        this.x = x;
+        this.y = y;
+    }
+
+    /**
+     * Snap to grid (resource nodes snap to tile centers)
+     */
+    public snapToGrid(): void {
+        const half = this.tileSize / 2;
+        this.x = Math.round((this.x - half) / this.tileSize) * this.tileSize + half;
+        this.y = Math.round((this.y - half) / this.tileSize) * this.tileSize + half;
+    }
+
+    public setSelected(selected: boolean): void {
+        this.isSelected = selected;
+        this.highlight.setVisible(selected);
+        this.updateOutline();
+    }
+
+    public containsPoint(worldX: number, worldY: number): boolean {
+        return Phaser.Math.Distance.Between(worldX, worldY, this.x, this.y) <= this.tileSize / 2;
+    }
+
+    private updateOutline(): void {
+        this.background.setStrokeStyle(3, this.isSelected ? 0xffff00 : PURITY_COLORS[this.purity], 1);
+    }
+}
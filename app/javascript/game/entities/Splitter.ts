@@ -0,0 +1,52 @@
+import Phaser from "phaser";
+import { Junction } from "./Junction";
+import { GraphNode, GraphPort, SplitterType } from "../managers/GraphManager";
+
+/**
+ * Smart or programmable splitter: one input and three outputs, each output with
+ * item filters (edited in the inspector). Behaves like a junction in the editor,
+ * but its sides never turn around (the whole splitter rotates instead) and it is square.
+ */
+export class Splitter extends Junction {
+    public readonly splitterType: SplitterType;
+
+    // Items per minute offered at the input and items held up (from the flow solver)
+    public arriving: Map<string, number> = new Map();
+    public blocked: string[] = [];
+
+    constructor(scene: Phaser.Scene, node: GraphNode, ports: GraphPort[], tileSize: number) {
+        super(scene, node, ports, tileSize);
+
+        this.splitterType = node.machine as SplitterType;
+
+        // Type badge in the middle
+        const badge = scene.add.text(0, 0, this.splitterType === 'Programmable Splitter' ? 'P' : 'S', {
+            fontSize: '12px',
+            fontStyle: 'bold',
+            color: '#ffffff'
+        });
+        badge.setOrigin(0.5);
+        this.add(badge);
+
+        this.onConnectionChanged();
+    }
+
+    protected override createShape(scene: Phaser.Scene, diameter: number, color: number, alpha: number = 1): Phaser.GameObjects.Shape {
+        return scene.add.rectangle(0, 0, diameter, diameter, color, alpha);
+    }
+
+    /**
+     * Show what reaches the input and which items hold it up
+     */
+    public setSplitterFlow(arriving: Map<string, number>, blocked: string[]): void {
+        this.arriving = arriving;
+        this.blocked = blocked;
+    }
+
+    /**
+     * Fixed colour per type (a splitter's role does not depend on its belts)
+     */
+    public override onConnectionChanged(): void {
+        this.getInteractiveObject().setFillStyle(this.splitterType === 'Programmable Splitter' ? 0x9966cc : 0xdd8833);
+    }
+}
@@ -0,0 +1,130 @@
+import { GraphManager, GraphState } from "./GraphManager";
+
+/**
+ * A reversible edit
+ */
+export interface Command {
+    label: string;
+    execute(): void;
+    undo(): void;
+}
+
+/**
+ * An edit of the graph, stored as the topology before and after it.
+ * Compound edits (e.g. splitting a belt with a junction) undo as a single step.
+ */
+export class GraphCommand implements Command {
+    constructor(
+        private graph: GraphManager,
+        public label: string,
+        private before: GraphState,
+        private after: GraphState
+    ) {}
+
+    public execute(): void {
+        this.graph.setState(this.after);
+    }
+
+    public undo(): void {
+        this.graph.setState(this.before);
+    }
+}
+
+/**
+ * Undo/redo stacks for workbench edits.
+ * Edits are applied to the graph directly and then committed here: everything changed
+ * since the previous commit becomes one command. Uncommitted changes (e.g. the loose
+ * start of a belt that is still being placed) are dropped by undo.
+ */
+export class CommandHistory {
+    private static readonly MAX_COMMANDS = 100;
+
+    private undoStack: Command[] = [];
+    private redoStack: Command[] = [];
+    private committed: GraphState;
+
+    constructor(private graph: GraphManager) {
+        this.committed = graph.getState();
+    }
+
+    /**
+     * Record the changes since the last commit as one command.
+     * Returns false if nothing changed.
+     */
+    public commit(label: string): boolean {
+        const state = this.graph.getState();
+        if (this.sameState(state, this.committed)) return false;
+
+        this.push(new GraphCommand(this.graph, label, this.committed, state));
+        this.committed = state;
+        return true;
+    }
+
+    /**
+     * Add a command that has already been executed
+     */
+    public push(command: Command): void {
+        this.undoStack.push(command);
+        if (this.undoStack.length > CommandHistory.MAX_COMMANDS) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    /**
+     * Revert the last command. Returns it, or null if there is nothing to undo.
+     */
+    public undo(): Command | null {
+        // Drop anything that was never committed
+        this.graph.setState(this.committed);
+
+        const command = this.undoStack.pop();
+        if (!command) return null;
+
+        command.undo();
+        this.redoStack.push(command);
+        this.committed = this.graph.getState();
+        return command;
+    }
+
+    /**
+     * Re-apply the last undone command. Returns it, or null if there is nothing to redo.
+     */
+    public redo(): Command | null {
+        this.graph.setState(this.committed);
+
+        const command = this.redoStack.pop();
+        if (!command) return null;
+
+        command.execute();
+        this.undoStack.push(command);
+        this.committed = this.graph.getState();
+        return command;
+    }
+
+    /**
+     * Forget all history and treat the current graph as the starting point
+     */
+    public reset(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.committed = this.graph.getState();
+    }
+
+    private sameState(a: GraphState, b: GraphState): boolean {
+        return JSON.stringify(this.normalize(a)) === JSON.stringify(this.normalize(b));
+    }
+
+    /**
+     * Order-independent form of a state (restored maps may iterate in a different order)
+     */
+    private normalize(state: GraphState) {
+        const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+        return {
+            nodes: state.nodes.map(node => ({ ...node, recipe: node.recipe?.name ?? null })).sort(byId),
+            ports: [...state.ports].sort(byId),
+            edges: [...state.edges].sort(byId),
+            wires: [...state.wires].sort(byId)
+        };
+    }
+}
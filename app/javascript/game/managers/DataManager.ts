@@ -1,4 +1,6 @@
-import Phaser from "phaser";
+import { GENERATORS, GeneratorDef, getGenerator } from "../utils/PowerGenerators";
+import { EXTRACTORS, ExtractorDef, PURITIES, Purity, getExtractor, getExtractionRate, getExtractionRecipeName } from "../utils/ResourceNodes";
+import { STORAGES, StorageDef, getStorage } from "../utils/Storage";
 
 // --- TYPES BASED ON YOUR JSON ---
 export interface MachineDef {
@@ -6,6 +8,7 @@ export interface MachineDef {
     basePower: number;
     inputCount: number;
     outputCount: number;
+    somersloopSlots: number;
 }
 
 export interface RecipeDef {
@@ -16,12 +19,39 @@ export interface RecipeDef {
     outputs: { item: string, quantity: number }[];
 }
 
+export type TransportType = 'belt' | 'pipe';
+
+export interface ItemDef {
+    name: string;
+    transportType: TransportType;
+    sinkPoints?: number;         // AWESOME points per item sunk (absent = none)
+    stackSize?: number;          // Items per inventory slot (absent = DEFAULT_STACK_SIZE)
+}
+
+export const DEFAULT_STACK_SIZE = 100;
+
+// Machine that destroys whatever it is fed and awards points for it
+export const SINK_MACHINE = 'Sink';
+
+// Sandbox source that puts out any item at a set rate (Infinity = as fast as the belt runs)
+export const SPAWN_MACHINE = 'Spawn';
+export const DEFAULT_SPAWN_RATE = 60;
+
 // --- GAME DATA MANAGER ---
 export class DataManager {
     private static instance: DataManager;
 
     public machines: MachineDef[] = [];
     public recipes: RecipeDef[] = [];
+    public extractionRecipes: RecipeDef[] = []; // Generated per extractor, resource and purity (kept out of the planner)
+    private spawnRecipes: Map<string, RecipeDef> = new Map(); // Generated per item and rate on demand
+    public items: ItemDef[] = [];
+
+    // Items gathered from the world rather than crafted (never expanded by the planner)
+    public rawResources: string[] = [
+        "Iron Ore", "Copper Ore", "Limestone", "Coal", "Caterium Ore", "Raw Quartz", "Sulfur",
+        "Bauxite", "Uranium", "SAM", "Water", "Crude Oil", "Nitrogen Gas",
+    ];
 
     // A manual map to define how big machines are on the grid (Width x Height in tiles)
     public machineSizes: Record<string, { w: number, h: number }> = {
@@ -32,12 +62,35 @@ export class DataManager {
         "Refinery": { w: 3, h: 4 },
         "Manufacturer": { w: 4, h: 4 },
         "Nuclear Power Plant": { w: 5, h: 6 },
+        "Packager": { w: 2, h: 2 },
+        "Blender": { w: 4, h: 4 },
+        "Converter": { w: 3, h: 3 },
+        "Particle Accelerator": { w: 5, h: 6 },
+        "Quantum Encoder": { w: 4, h: 6 },
         // Defaults
         "Storage": { w: 1, h: 1 },
         "Sink": { w: 2, h: 2 },
         "Spawn": { w: 1, h: 1 },
     };
 
+    // Palette grouping (machines not listed here fall under "Other")
+    public machineCategories: Record<string, string> = {
+        "Smelter": "Smelting",
+        "Foundry": "Smelting",
+        "Constructor": "Production",
+        "Assembler": "Production",
+        "Manufacturer": "Production",
+        "Packager": "Fluids",
+        "Refinery": "Fluids",
+        "Blender": "Fluids",
+        "Particle Accelerator": "Advanced",
+        "Converter": "Advanced",
+        "Quantum Encoder": "Advanced",
+        "Nuclear Power Plant": "Power",
+        "Sink": "Logistics",
+        "Spawn": "Logistics",
+    };
+
     private constructor() {}
 
     public static getInstance(): DataManager {
@@ -49,11 +102,253 @@ export class DataManager {
 
     // Call this in your Preload scene
     public loadData(json: any) {
-        this.machines = json.machines;
-        this.recipes = json.recipes;
+        this.machines = [...json.machines];
+        this.recipes = [...json.recipes];
+        this.items = json.items || [];
+
+        GENERATORS.forEach(generator => this.addGenerator(generator));
+
+        this.extractionRecipes = [];
+        EXTRACTORS.forEach(extractor => this.addExtractor(extractor));
+
+        STORAGES.forEach(storage => this.addStorage(storage));
+
+        this.addSink();
+        this.addSpawn();
+        this.spawnRecipes.clear();
+    }
+
+    /**
+     * Register a storage container or fluid buffer: one input, one output, no recipe
+     */
+    private addStorage(storage: StorageDef) {
+        if (!this.getMachine(storage.machine)) {
+            this.machines.push({
+                name: storage.machine,
+                basePower: 0,
+                inputCount: 1,
+                outputCount: 1,
+                somersloopSlots: 0
+            });
+        }
+
+        if (!this.machineSizes[storage.machine]) this.machineSizes[storage.machine] = storage.size;
+        this.machineCategories[storage.machine] = 'Logistics';
+    }
+
+    /**
+     * Register the spawn: a single output whose recipe is made per item and rate (see getSpawnRecipe)
+     */
+    private addSpawn() {
+        if (this.getMachine(SPAWN_MACHINE)) return;
+
+        this.machines.push({
+            name: SPAWN_MACHINE,
+            basePower: 0,
+            inputCount: 0,
+            outputCount: 1,
+            somersloopSlots: 0
+        });
+    }
+
+    /**
+     * Register the sink: a single belt input taking any item, no recipe
+     */
+    private addSink() {
+        if (this.getMachine(SINK_MACHINE)) return;
+
+        this.machines.push({
+            name: SINK_MACHINE,
+            basePower: 30,
+            inputCount: 1,
+            outputCount: 0,
+            somersloopSlots: 0
+        });
+    }
+
+    /**
+     * Register a generator that the game data lacks, with one recipe per fuel
+     * (60 s cycles, so the quantities are the burn rates per minute)
+     */
+    private addGenerator(generator: GeneratorDef) {
+        if (!this.getMachine(generator.machine)) {
+            this.machines.push({
+                name: generator.machine,
+                basePower: 0,
+                inputCount: generator.water > 0 ? 2 : 1,
+                outputCount: 0,
+                somersloopSlots: 0
+            });
+        }
+
+        generator.fuels.forEach(fuel => {
+            const name = `${fuel.item} (burning)`;
+            if (this.getRecipe(name)) return;
+
+            const inputs = [{ item: fuel.item, quantity: fuel.rate }];
+            if (generator.water > 0) inputs.push({ item: 'Water', quantity: generator.water });
+            this.recipes.push({ name, machine: generator.machine, craftTime: 60, inputs, outputs: [] });
+        });
+
+        if (!this.machineSizes[generator.machine]) this.machineSizes[generator.machine] = generator.size;
+        this.machineCategories[generator.machine] = 'Power';
+    }
+
+    /**
+     * Register an extractor with one recipe per resource and purity
+     * (60 s cycles without inputs, so the quantity is the rate per minute)
+     */
+    private addExtractor(extractor: ExtractorDef) {
+        if (!this.getMachine(extractor.machine)) {
+            this.machines.push({
+                name: extractor.machine,
+                basePower: extractor.basePower,
+                inputCount: 0,
+                outputCount: 1,
+                somersloopSlots: 0
+            });
+        }
+
+        extractor.resources.forEach(item => {
+            PURITIES.forEach(purity => {
+                this.extractionRecipes.push({
+                    name: getExtractionRecipeName(extractor.machine, item, purity),
+                    machine: extractor.machine,
+                    craftTime: 60,
+                    inputs: [],
+                    outputs: [{ item, quantity: getExtractionRate(extractor.machine, purity) }]
+                });
+            });
+        });
+
+        if (!this.machineSizes[extractor.machine]) this.machineSizes[extractor.machine] = { w: 2, h: 2 };
+        this.machineCategories[extractor.machine] = 'Extraction';
     }
 
     public getMachineSize(name: string) {
         return this.machineSizes[name] || { w: 2, h: 2 }; // Default 2x2
     }
+
+    public getMachineCategory(name: string): string {
+        return this.machineCategories[name] || 'Other';
+    }
+
+    public getMachine(name: string): MachineDef | undefined {
+        return this.machines.find(machine => machine.name === name);
+    }
+
+    /**
+     * Somersloop slots of a machine (0 for unknown machines)
+     */
+    public getSomersloopSlots(name: string): number {
+        return this.getMachine(name)?.somersloopSlots ?? 0;
+    }
+
+    public isGenerator(name: string): boolean {
+        return getGenerator(name) !== undefined;
+    }
+
+    public isExtractor(name: string): boolean {
+        return getExtractor(name) !== undefined;
+    }
+
+    public isStorage(name: string): boolean {
+        return getStorage(name) !== undefined;
+    }
+
+    public isSink(name: string): boolean {
+        return name === SINK_MACHINE;
+    }
+
+    public isSpawn(name: string): boolean {
+        return name === SPAWN_MACHINE;
+    }
+
+    public getRecipe(name: string): RecipeDef | undefined {
+        return this.recipes.find(recipe => recipe.name === name)
+            ?? this.extractionRecipes.find(recipe => recipe.name === name)
+            ?? this.spawnRecipes.get(name);
+    }
+
+    /**
+     * Recipe of a spawn putting out an item (60 s cycle without inputs, so the quantity
+     * is the rate per minute). The same item and rate always give the same recipe.
+     * @param rate - Items (or m³) per minute; Infinity fills whatever belt is attached
+     */
+    public getSpawnRecipe(item: string, rate: number): RecipeDef {
+        const name = `${item} (spawn, ${rate === Infinity ? 'unlimited' : `${rate}/min`})`;
+
+        let recipe = this.spawnRecipes.get(name);
+        if (!recipe) {
+            recipe = {
+                name,
+                machine: SPAWN_MACHINE,
+                craftTime: 60,
+                inputs: [],
+                outputs: [{ item, quantity: rate }]
+            };
+            this.spawnRecipes.set(name, recipe);
+        }
+        return recipe;
+    }
+
+    /**
+     * Recipe of an extractor on a resource node (undefined if it cannot mine the resource)
+     */
+    public getExtractionRecipe(machine: string, item: string, purity: Purity): RecipeDef | undefined {
+        const name = getExtractionRecipeName(machine, item, purity);
+        return this.extractionRecipes.find(recipe => recipe.name === name);
+    }
+
+    public getItem(name: string): ItemDef | undefined {
+        return this.items.find(item => item.name === name);
+    }
+
+    /**
+     * Whether an item travels on belts or through pipes (unknown items go on belts)
+     */
+    public getTransportType(item: string): TransportType {
+        return this.getItem(item)?.transportType ?? 'belt';
+    }
+
+    /**
+     * What a machine's unlabelled ports carry (pipes for fluid buffers, belts otherwise)
+     */
+    public getMachineTransport(name: string): TransportType {
+        return getStorage(name)?.transport ?? 'belt';
+    }
+
+    /**
+     * Items per inventory slot (fluids count in m³ and have no stacks)
+     */
+    public getStackSize(item: string): number {
+        return this.getItem(item)?.stackSize ?? DEFAULT_STACK_SIZE;
+    }
+
+    /**
+     * AWESOME points awarded per item sunk (0 for items without points)
+     */
+    public getSinkPoints(item: string): number {
+        return this.getItem(item)?.sinkPoints ?? 0;
+    }
+
+    public isRawResource(item: string): boolean {
+        return this.rawResources.includes(item);
+    }
+
+    /**
+     * All recipes with the item among their products
+     */
+    public getRecipesProducing(item: string): RecipeDef[] {
+        return this.recipes.filter(recipe => recipe.outputs.some(output => output.item === item));
+    }
+
+    /**
+     * All recipes that can be crafted in a given machine (sorted by name)
+     */
+    public getRecipesForMachine(machine: string): RecipeDef[] {
+        return this.recipes
+            .filter(recipe => recipe.machine === machine)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
 }
\ No newline at end of file
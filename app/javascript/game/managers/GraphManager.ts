@@ -0,0 +1,1036 @@
+import { DataManager, RecipeDef, TransportType } from "./DataManager";
+import { EventEmitter } from "../utils/EventEmitter";
+import { DEFAULT_BELT_TIER, BELT_TIERS } from "../utils/BeltTiers";
+import { PIPE_TIERS } from "../utils/PipeTiers";
+import { DEFAULT_CLOCK_SPEED, clampClockSpeed } from "../utils/ClockSpeed";
+import { Purity } from "../utils/ResourceNodes";
+
+// --- TOPOLOGY TYPES ---
+// Kept free of Phaser so the graph can be built and solved outside the browser.
+
+export type ConnectionType = 'INPUT' | 'OUTPUT';
+export type ConnectionSide = 'TOP' | 'RIGHT' | 'BOTTOM' | 'LEFT';
+
+export type NodeKind = 'FACTORY' | 'JUNCTION' | 'SPLITTER' | 'ENDPOINT' | 'POWER_POLE' | 'RESOURCE';
+
+export type SplitterType = 'Smart Splitter' | 'Programmable Splitter';
+
+/**
+ * Splitter output rules besides plain item names:
+ * - ANY: every item
+ * - ANY_UNDEFINED: items no other output of the splitter names explicitly
+ * - OVERFLOW: whatever the other outputs cannot take
+ */
+export type SplitterRule = 'ANY' | 'ANY_UNDEFINED' | 'OVERFLOW';
+export const SPLITTER_RULE_LABELS: Record<SplitterRule, string> = {
+    ANY: 'Any',
+    ANY_UNDEFINED: 'Any undefined',
+    OVERFLOW: 'Overflow'
+};
+
+export interface GraphNode {
+    id: string;
+    kind: NodeKind;
+    x: number;
+    y: number;
+    ports: string[];             // Port IDs owned by this node
+    // Factory-only properties (splitters use machine for their type and rotate too)
+    machine: string | null;
+    gridWidth: number;           // Footprint as placed (after rotation)
+    gridHeight: number;
+    rotation: number;            // Quarter turns clockwise (0-3)
+    recipe: RecipeDef | null;
+    clockSpeed: number;          // Percent (1-250), scales the recipe rates
+    somersloops: number;         // Filled somersloop slots, amplify the output
+    // Resource node properties
+    resource: string | null;     // Item extracted from the node
+    purity: Purity;
+}
+
+export interface GraphPort {
+    id: string;
+    nodeId: string;
+    type: ConnectionType;
+    side: ConnectionSide | null; // null for free-standing belt endpoints
+    index: number;               // Position among the node's ports of the same type
+    item: string | null;         // Recipe ingredient/product handled by this port
+    transport: TransportType;    // Belts attach to belt ports, pipes to pipe ports
+    filters: string[];           // Splitter outputs: item names or splitter rules (empty = nothing passes)
+    edgeId: string | null;
+}
+
+export interface GraphEdge {
+    id: string;
+    from: string;                // OUTPUT port ID
+    to: string;                  // INPUT port ID
+    layer: number;
+    transport: TransportType;    // Belt or pipe (both ports have the same transport)
+    tier: number;                // Belt tier (Mk1-Mk6) or pipe tier (Mk1-Mk2), caps throughput
+}
+
+/**
+ * Power wire between two factories or power poles (a layer of its own, separate from belts)
+ */
+export interface GraphWire {
+    id: string;
+    a: string;                   // Node IDs (order carries no meaning)
+    b: string;
+}
+
+// Wires a power pole can hold
+export const POWER_POLE_CONNECTIONS = 4;
+
+const SIDES_CLOCKWISE: ConnectionSide[] = ['TOP', 'RIGHT', 'BOTTOM', 'LEFT'];
+
+/**
+ * The side a port ends up on after rotating its node clockwise
+ */
+export function rotateSide(side: ConnectionSide, turns: number): ConnectionSide {
+    const index = SIDES_CLOCKWISE.indexOf(side);
+    return SIDES_CLOCKWISE[(((index + turns) % 4) + 4) % 4];
+}
+
+/**
+ * Sides holding a factory's inputs and outputs, based on its unrotated footprint:
+ * - 1xN machines: inputs on top short side, outputs on bottom short side
+ * - Nx1 machines: inputs on left short side, outputs on right short side
+ * - Square/rectangular (2x2+): inputs on left long side, outputs on right long side
+ */
+export function getFactorySides(
+    baseWidth: number,
+    baseHeight: number,
+    rotation: number = 0
+): { input: ConnectionSide, output: ConnectionSide } {
+    const isVertical = baseWidth === 1 && baseHeight > 1;
+    return {
+        input: rotateSide(isVertical ? 'TOP' : 'LEFT', rotation),
+        output: rotateSide(isVertical ? 'BOTTOM' : 'RIGHT', rotation)
+    };
+}
+
+/**
+ * Deep copy of the whole topology (used for undo/redo)
+ */
+export interface GraphState {
+    nodes: GraphNode[];
+    ports: GraphPort[];
+    edges: GraphEdge[];
+    wires: GraphWire[];
+}
+
+export interface GraphEvents {
+    nodeAdded: (node: GraphNode) => void;
+    nodeRemoved: (node: GraphNode) => void;
+    nodeMoved: (node: GraphNode) => void;
+    portsChanged: (node: GraphNode) => void;
+    nodeChanged: (node: GraphNode) => void;      // Settings that leave the ports as they are (e.g. clock speed, splitter filters)
+    edgeAdded: (edge: GraphEdge) => void;
+    edgeRemoved: (edge: GraphEdge) => void;
+    edgeChanged: (edge: GraphEdge) => void;
+    wireAdded: (wire: GraphWire) => void;
+    wireRemoved: (wire: GraphWire) => void;
+}
+
+/**
+ * Owns the factory network topology: nodes (factories, junctions, splitters, belt endpoints,
+ * power poles, resource nodes), their ports, the belt edges between them and the power wires.
+ * Scenes render from this model and listen to its events; they never own the topology.
+ */
+export class GraphManager extends EventEmitter<GraphEvents> {
+    private nodes: Map<string, GraphNode> = new Map();
+    private ports: Map<string, GraphPort> = new Map();
+    private edges: Map<string, GraphEdge> = new Map();
+    private wires: Map<string, GraphWire> = new Map();
+
+    private nextId: number = 1;
+
+    // ===== NODES =====
+
+    /**
+     * Add a factory. With a recipe, one port is created per ingredient and product;
+     * without one, the given number of unlabelled ports is created instead.
+     * @param gridWidth - Unrotated footprint width (the machine's size)
+     * @param gridHeight - Unrotated footprint height
+     * @param rotation - Quarter turns clockwise
+     */
+    public addFactory(
+        machine: string,
+        x: number,
+        y: number,
+        gridWidth: number,
+        gridHeight: number,
+        recipe: RecipeDef | null = null,
+        inputCount: number = recipe?.inputs.length ?? 0,
+        outputCount: number = recipe?.outputs.length ?? 0,
+        rotation: number = 0
+    ): GraphNode {
+        const node = this.createNode('FACTORY', x, y);
+        node.machine = machine;
+        node.rotation = ((rotation % 4) + 4) % 4;
+        node.gridWidth = node.rotation % 2 === 0 ? gridWidth : gridHeight;
+        node.gridHeight = node.rotation % 2 === 0 ? gridHeight : gridWidth;
+        node.recipe = recipe;
+
+        this.createFactoryPorts(node, inputCount, outputCount);
+
+        this.nodes.set(node.id, node);
+        this.emit('nodeAdded', node);
+        return node;
+    }
+
+    /**
+     * Change a factory's recipe and rebuild its ports from the new ingredients/products.
+     * Belts stay attached when a new port handles the same item (or, for unlabelled ports,
+     * the same slot); every other belt is removed.
+     */
+    public setRecipe(nodeId: string, recipe: RecipeDef | null): void {
+        const node = this.nodes.get(nodeId);
+        if (!node || node.kind !== 'FACTORY' || node.recipe === recipe) return;
+
+        const oldPorts = this.getPorts(nodeId);
+        const inputCount = recipe ? recipe.inputs.length : oldPorts.filter(p => p.type === 'INPUT').length;
+        const outputCount = recipe ? recipe.outputs.length : oldPorts.filter(p => p.type === 'OUTPUT').length;
+
+        node.recipe = recipe;
+        node.ports = [];
+        this.createFactoryPorts(node, inputCount, outputCount);
+        const newPorts = node.ports.map(portId => this.ports.get(portId)!);
+
+        // Move belts over to matching new ports
+        const moved = new Map<string, GraphPort>(); // edge ID -> new port
+        oldPorts.forEach(oldPort => {
+            if (!oldPort.edgeId) return;
+
+            const target = newPorts.find(port =>
+                port.type === oldPort.type &&
+                port.transport === oldPort.transport &&
+                port.edgeId === null &&
+                (oldPort.item === null ? port.index === oldPort.index : port.item === oldPort.item)
+            );
+
+            if (target) {
+                target.edgeId = oldPort.edgeId;
+                moved.set(oldPort.edgeId, target);
+            }
+        });
+
+        // Remove belts that no longer fit (old ports are still registered at this point)
+        oldPorts.forEach(oldPort => {
+            if (oldPort.edgeId && !moved.has(oldPort.edgeId)) {
+                this.disconnect(oldPort.edgeId);
+            }
+        });
+
+        oldPorts.forEach(oldPort => this.ports.delete(oldPort.id));
+        moved.forEach((port, edgeId) => {
+            const edge = this.edges.get(edgeId)!;
+            if (port.type === 'OUTPUT') {
+                edge.from = port.id;
+            } else {
+                edge.to = port.id;
+            }
+        });
+
+        this.emit('portsChanged', node);
+    }
+
+    /**
+     * Rotate a factory or splitter by quarter turns (positive = clockwise).
+     * The footprint is swapped on odd turns and every port moves to the rotated side;
+     * belts stay attached to their ports.
+     */
+    public rotateNode(nodeId: string, turns: number = 1): void {
+        const node = this.nodes.get(nodeId);
+        if (!node || (node.kind !== 'FACTORY' && node.kind !== 'SPLITTER') || turns % 4 === 0) return;
+
+        node.rotation = (((node.rotation + turns) % 4) + 4) % 4;
+        if (turns % 2 !== 0) {
+            [node.gridWidth, node.gridHeight] = [node.gridHeight, node.gridWidth];
+        }
+
+        this.getPorts(nodeId).forEach(port => {
+            if (port.side) port.side = rotateSide(port.side, turns);
+        });
+
+        this.emit('portsChanged', node);
+    }
+
+    /**
+     * Add a junction with one port per side (TOP/LEFT in, RIGHT/BOTTOM out by default;
+     * see setPortType to reconfigure a side)
+     * @param transport - 'pipe' for a pipe junction
+     */
+    public addJunction(x: number, y: number, transport: TransportType = 'belt'): GraphNode {
+        const node = this.createNode('JUNCTION', x, y);
+
+        this.createPort(node, 'INPUT', 'TOP', null, transport);
+        this.createPort(node, 'OUTPUT', 'RIGHT', null, transport);
+        this.createPort(node, 'OUTPUT', 'BOTTOM', null, transport);
+        this.createPort(node, 'INPUT', 'LEFT', null, transport);
+
+        this.nodes.set(node.id, node);
+        this.emit('nodeAdded', node);
+        return node;
+    }
+
+    /**
+     * Check whether a junction side may become an input or output: it must be free
+     * and the junction has to keep at least one input and one output
+     */
+    public canSetPortType(portId: string, type: ConnectionType): boolean {
+        const port = this.ports.get(portId);
+        const node = port && this.nodes.get(port.nodeId);
+        if (!port || !node || node.kind !== 'JUNCTION') return false;
+        if (port.type === type) return true;
+        if (port.edgeId !== null) return false;
+
+        return this.getPortsOfNode(node, port.type).length > 1;
+    }
+
+    /**
+     * Turn a junction side into an input or output. Returns false if not allowed.
+     */
+    public setPortType(portId: string, type: ConnectionType): boolean {
+        if (!this.canSetPortType(portId, type)) return false;
+
+        const port = this.ports.get(portId)!;
+        if (port.type === type) return true;
+
+        const node = this.nodes.get(port.nodeId)!;
+        port.type = type;
+        (['INPUT', 'OUTPUT'] as ConnectionType[]).forEach(portType => {
+            this.getPortsOfNode(node, portType).forEach((other, index) => other.index = index);
+        });
+
+        this.emit('portsChanged', node);
+        return true;
+    }
+
+    /**
+     * Add a smart or programmable splitter: input on the LEFT, outputs on TOP, RIGHT
+     * and BOTTOM (before rotation). New splitters send everything straight on (RIGHT = ANY).
+     */
+    public addSplitter(type: SplitterType, x: number, y: number, rotation: number = 0): GraphNode {
+        const node = this.createNode('SPLITTER', x, y);
+        node.machine = type;
+        node.rotation = ((rotation % 4) + 4) % 4;
+
+        this.createPort(node, 'INPUT', rotateSide('LEFT', node.rotation));
+        this.createPort(node, 'OUTPUT', rotateSide('TOP', node.rotation));
+        this.createPort(node, 'OUTPUT', rotateSide('RIGHT', node.rotation)).filters = ['ANY'];
+        this.createPort(node, 'OUTPUT', rotateSide('BOTTOM', node.rotation));
+
+        this.nodes.set(node.id, node);
+        this.emit('nodeAdded', node);
+        return node;
+    }
+
+    /**
+     * Overclock or underclock a factory (percent, clamped to 1-250)
+     */
+    public setClockSpeed(nodeId: string, clockSpeed: number): void {
+        const node = this.nodes.get(nodeId);
+        if (!node || node.kind !== 'FACTORY') return;
+
+        const clamped = clampClockSpeed(clockSpeed);
+        if (node.clockSpeed === clamped) return;
+
+        node.clockSpeed = clamped;
+        this.emit('nodeChanged', node);
+    }
+
+    /**
+     * Slot somersloops into a factory (clamped to the machine's slots)
+     */
+    public setSomersloops(nodeId: string, somersloops: number): void {
+        const node = this.nodes.get(nodeId);
+        if (!node || node.kind !== 'FACTORY') return;
+
+        const slots = DataManager.getInstance().getSomersloopSlots(node.machine!);
+        const clamped = Math.min(Math.max(Math.round(somersloops), 0), slots);
+        if (node.somersloops === clamped) return;
+
+        node.somersloops = clamped;
+        this.emit('nodeChanged', node);
+    }
+
+    /**
+     * Set the filters of a splitter output. Smart splitters keep one filter per output,
+     * programmable splitters any number. Returns false for other ports.
+     */
+    public setPortFilters(portId: string, filters: string[]): boolean {
+        const port = this.ports.get(portId);
+        const node = port && this.nodes.get(port.nodeId);
+        if (!port || !node || node.kind !== 'SPLITTER' || port.type !== 'OUTPUT') return false;
+
+        const unique = Array.from(new Set(filters));
+        port.filters = node.machine === 'Programmable Splitter' ? unique : unique.slice(0, 1);
+
+        this.emit('nodeChanged', node);
+        return true;
+    }
+
+    /**
+     * Add a free-standing belt endpoint. Its ports are created as belts attach.
+     */
+    public addEndpoint(x: number, y: number): GraphNode {
+        const node = this.createNode('ENDPOINT', x, y);
+
+        this.nodes.set(node.id, node);
+        this.emit('nodeAdded', node);
+        return node;
+    }
+
+    /**
+     * Add a power pole (takes a single tile, positioned by its center)
+     */
+    public addPowerPole(x: number, y: number): GraphNode {
+        const node = this.createNode('POWER_POLE', x, y);
+
+        this.nodes.set(node.id, node);
+        this.emit('nodeAdded', node);
+        return node;
+    }
+
+    /**
+     * Add a resource node (a single tile on the map, positioned by its center).
+     * It takes no belts: extractors placed over it produce the resource.
+     */
+    public addResourceNode(resource: string, purity: Purity, x: number, y: number): GraphNode {
+        const node = this.createNode('RESOURCE', x, y);
+        node.resource = resource;
+        node.purity = purity;
+
+        this.nodes.set(node.id, node);
+        this.emit('nodeAdded', node);
+        return node;
+    }
+
+    /**
+     * Change what a resource node holds
+     */
+    public setResource(nodeId: string, resource: string, purity: Purity): void {
+        const node = this.nodes.get(nodeId);
+        if (!node || node.kind !== 'RESOURCE' || (node.resource === resource && node.purity === purity)) return;
+
+        node.resource = resource;
+        node.purity = purity;
+        this.emit('nodeChanged', node);
+    }
+
+    /**
+     * Remove a node together with every edge and wire attached to it
+     */
+    public removeNode(nodeId: string): void {
+        const node = this.nodes.get(nodeId);
+        if (!node) return;
+
+        this.getEdgesOf(nodeId).forEach(edge => this.disconnect(edge.id, false));
+        this.getWiresOf(nodeId).forEach(wire => this.removeWire(wire.id));
+
+        node.ports.forEach(portId => this.ports.delete(portId));
+        this.nodes.delete(nodeId);
+        this.emit('nodeRemoved', node);
+    }
+
+    /**
+     * Move a node to a new world position
+     */
+    public moveNode(nodeId: string, x: number, y: number): void {
+        const node = this.nodes.get(nodeId);
+        if (!node || (node.x === x && node.y === y)) return;
+
+        node.x = x;
+        node.y = y;
+        this.emit('nodeMoved', node);
+    }
+
+    // ===== EDGES =====
+
+    /**
+     * Check whether a belt may run from one terminal to another: the terminals fit
+     * (see canJoin) and every item the belt would carry is accepted at its end.
+     * @param flipSides - Allow free junction sides to turn around to fit the belt
+     */
+    public canConnect(fromId: string, toId: string, flipSides: boolean = false): boolean {
+        return this.canJoin(fromId, toId, flipSides) && this.getRefusedItems(fromId, toId).length === 0;
+    }
+
+    /**
+     * Check whether two terminals fit together, whatever items the belt would carry.
+     * Terminals are port IDs, or endpoint node IDs (which accept any number of belts).
+     * Belts only join belt terminals and pipes only pipe terminals.
+     * @param flipSides - Allow free junction sides to turn around to fit the belt
+     */
+    public canJoin(fromId: string, toId: string, flipSides: boolean = false): boolean {
+        const fromNode = this.resolveNode(fromId);
+        const toNode = this.resolveNode(toId);
+        if (!fromNode || !toNode || fromNode === toNode) return false;
+
+        const fromTransport = this.getTransport(fromId);
+        const toTransport = this.getTransport(toId);
+        if (fromTransport && toTransport && fromTransport !== toTransport) return false;
+
+        const fromPort = this.ports.get(fromId);
+        const toPort = this.ports.get(toId);
+
+        // Belts leave through outputs and arrive through inputs
+        const fits = (port: GraphPort, type: ConnectionType) =>
+            port.edgeId === null && (port.type === type || (flipSides && this.canSetPortType(port.id, type)));
+
+        if (fromPort && !fits(fromPort, 'OUTPUT')) return false;
+        if (toPort && !fits(toPort, 'INPUT')) return false;
+
+        return true;
+    }
+
+    /**
+     * Connect two terminals with a belt or pipe edge (whichever the terminals take).
+     * Returns null if the connection is invalid.
+     * @param tier - Belt or pipe tier, clamped to the tiers of the transport
+     * @param flipSides - Turn free junction sides around to fit the belt
+     */
+    public connect(
+        fromId: string,
+        toId: string,
+        layer: number = 0,
+        tier: number = DEFAULT_BELT_TIER,
+        flipSides: boolean = false
+    ): GraphEdge | null {
+        if (!this.canConnect(fromId, toId, flipSides)) return null;
+
+        if (this.ports.has(fromId)) this.setPortType(fromId, 'OUTPUT');
+        if (this.ports.has(toId)) this.setPortType(toId, 'INPUT');
+
+        const transport = this.getTransport(fromId) ?? this.getTransport(toId) ?? 'belt';
+        const fromPort = this.ports.get(fromId) || this.createPort(this.nodes.get(fromId)!, 'OUTPUT', null, null, transport);
+        const toPort = this.ports.get(toId) || this.createPort(this.nodes.get(toId)!, 'INPUT', null, null, transport);
+
+        const edge: GraphEdge = {
+            id: this.generateId('e'),
+            from: fromPort.id,
+            to: toPort.id,
+            layer,
+            transport,
+            tier: this.clampTier(transport, tier)
+        };
+
+        fromPort.edgeId = edge.id;
+        toPort.edgeId = edge.id;
+        this.edges.set(edge.id, edge);
+
+        this.emit('edgeAdded', edge);
+        return edge;
+    }
+
+    /**
+     * Remove a belt edge.
+     * @param pruneEndpoints - Also remove belt endpoints left without any belts
+     */
+    public disconnect(edgeId: string, pruneEndpoints: boolean = true): void {
+        const edge = this.edges.get(edgeId);
+        if (!edge) return;
+
+        this.edges.delete(edgeId);
+
+        const orphans: string[] = [];
+        [edge.from, edge.to].forEach(portId => {
+            const port = this.ports.get(portId);
+            if (!port) return;
+
+            port.edgeId = null;
+
+            // Endpoint ports only exist while a belt uses them
+            const node = this.nodes.get(port.nodeId)!;
+            if (node.kind === 'ENDPOINT') {
+                this.ports.delete(portId);
+                node.ports = node.ports.filter(id => id !== portId);
+                if (node.ports.length === 0) orphans.push(node.id);
+            }
+        });
+
+        this.emit('edgeRemoved', edge);
+
+        if (pruneEndpoints) {
+            orphans.forEach(nodeId => this.removeNode(nodeId));
+        }
+    }
+
+    /**
+     * Change the tier of a belt or pipe edge
+     */
+    public setEdgeTier(edgeId: string, tier: number): void {
+        const edge = this.edges.get(edgeId);
+        if (!edge) return;
+
+        const clamped = this.clampTier(edge.transport, tier);
+        if (edge.tier === clamped) return;
+
+        edge.tier = clamped;
+        this.emit('edgeChanged', edge);
+    }
+
+    // ===== WIRES =====
+
+    /**
+     * Check whether a power wire may join two nodes: factories and power poles only,
+     * one wire per pair, and poles hold at most POWER_POLE_CONNECTIONS wires
+     */
+    public canWire(aId: string, bId: string): boolean {
+        const a = this.nodes.get(aId);
+        const b = this.nodes.get(bId);
+        if (!a || !b || a === b) return false;
+
+        const wireable = (node: GraphNode) =>
+            (node.kind === 'FACTORY' || node.kind === 'POWER_POLE') &&
+            (node.kind !== 'POWER_POLE' || this.getWiresOf(node.id).length < POWER_POLE_CONNECTIONS);
+        if (!wireable(a) || !wireable(b)) return false;
+
+        return !this.getWiresOf(aId).some(wire => wire.a === bId || wire.b === bId);
+    }
+
+    /**
+     * Join two nodes with a power wire. Returns null if the wire is invalid.
+     */
+    public addWire(aId: string, bId: string): GraphWire | null {
+        if (!this.canWire(aId, bId)) return null;
+
+        const wire: GraphWire = { id: this.generateId('w'), a: aId, b: bId };
+        this.wires.set(wire.id, wire);
+
+        this.emit('wireAdded', wire);
+        return wire;
+    }
+
+    public removeWire(wireId: string): void {
+        const wire = this.wires.get(wireId);
+        if (!wire) return;
+
+        this.wires.delete(wireId);
+        this.emit('wireRemoved', wire);
+    }
+
+    public getWire(wireId: string): GraphWire | undefined {
+        return this.wires.get(wireId);
+    }
+
+    public getWires(): GraphWire[] {
+        return Array.from(this.wires.values());
+    }
+
+    /**
+     * All wires attached to a node
+     */
+    public getWiresOf(nodeId: string): GraphWire[] {
+        return this.getWires().filter(wire => wire.a === nodeId || wire.b === nodeId);
+    }
+
+    // ===== QUERIES =====
+
+    public getNode(nodeId: string): GraphNode | undefined {
+        return this.nodes.get(nodeId);
+    }
+
+    public getPort(portId: string): GraphPort | undefined {
+        return this.ports.get(portId);
+    }
+
+    public getEdge(edgeId: string): GraphEdge | undefined {
+        return this.edges.get(edgeId);
+    }
+
+    public getNodes(): GraphNode[] {
+        return Array.from(this.nodes.values());
+    }
+
+    public getEdges(): GraphEdge[] {
+        return Array.from(this.edges.values());
+    }
+
+    /**
+     * Ports of a node, optionally filtered by type (in index order)
+     */
+    public getPorts(nodeId: string, type?: ConnectionType): GraphPort[] {
+        const node = this.nodes.get(nodeId);
+        if (!node) return [];
+
+        return node.ports
+            .map(portId => this.ports.get(portId)!)
+            .filter(port => !type || port.type === type);
+    }
+
+    /**
+     * All edges attached to a node
+     */
+    public getEdgesOf(nodeId: string): GraphEdge[] {
+        return this.getPorts(nodeId)
+            .filter(port => port.edgeId !== null)
+            .map(port => this.edges.get(port.edgeId!)!);
+    }
+
+    /**
+     * What a terminal carries: the port's transport, or for a belt endpoint the
+     * transport of the belts already attached (null while it has none)
+     */
+    public getTransport(terminalId: string): TransportType | null {
+        const port = this.ports.get(terminalId);
+        if (port) return port.transport;
+
+        const node = this.nodes.get(terminalId);
+        const first = node?.kind === 'ENDPOINT' ? this.ports.get(node.ports[0]) : undefined;
+        return first?.transport ?? null;
+    }
+
+    /**
+     * Items a belt leaving this terminal carries: the item of a factory output, or
+     * whatever reaches a junction, splitter output (as far as its filters let through),
+     * storage or belt endpoint. Null if unknown (open belt ends and factories without
+     * a recipe may pass anything).
+     */
+    public getItemsFrom(terminalId: string): string[] | null {
+        return this.traceItems(terminalId, 'INPUT', new Set());
+    }
+
+    /**
+     * Items a belt arriving at this terminal may deliver: the item of a factory input,
+     * or whatever the belts leaving a junction, splitter (through the filters of each
+     * output), storage or belt endpoint lead to. Null if anything is accepted.
+     */
+    public getItemsAcceptedAt(terminalId: string): string[] | null {
+        return this.traceItems(terminalId, 'OUTPUT', new Set());
+    }
+
+    /**
+     * Items a belt from one terminal to the other would carry that are not accepted at its end.
+     * Empty when everything fits or when either side is unknown.
+     */
+    public getRefusedItems(fromId: string, toId: string): string[] {
+        const items = this.getItemsFrom(fromId);
+        const accepted = this.getItemsAcceptedAt(toId);
+        if (!items || !accepted) return [];
+
+        return items.filter(item => !accepted.includes(item));
+    }
+
+    /**
+     * The node owning a port
+     */
+    public getNodeOfPort(portId: string): GraphNode | undefined {
+        const port = this.ports.get(portId);
+        return port ? this.nodes.get(port.nodeId) : undefined;
+    }
+
+    /**
+     * Remove everything (emits removal events so views can clean up)
+     */
+    public clear(): void {
+        this.getNodes().forEach(node => this.removeNode(node.id));
+    }
+
+    // ===== SNAPSHOTS =====
+
+    /**
+     * Copy the current topology. Later edits do not affect the returned state.
+     */
+    public getState(): GraphState {
+        return {
+            nodes: this.getNodes().map(node => ({ ...node, ports: [...node.ports] })),
+            ports: Array.from(this.ports.values()).map(port => ({ ...port, filters: [...port.filters] })),
+            edges: this.getEdges().map(edge => ({ ...edge })),
+            wires: this.getWires().map(wire => ({ ...wire }))
+        };
+    }
+
+    /**
+     * Bring the graph to a previously captured state, keeping all IDs.
+     * Only what differs is touched, so unchanged nodes and belts keep their views.
+     */
+    public setState(state: GraphState): void {
+        const nodes = new Map(state.nodes.map(node => [node.id, node]));
+        const ports = new Map(state.ports.map(port => [port.id, port]));
+        const edges = new Map(state.edges.map(edge => [edge.id, edge]));
+        const wires = new Map(state.wires.map(wire => [wire.id, wire]));
+
+        // Wires that disappear (wires never change, they are only added and removed)
+        this.getWires().forEach(wire => {
+            if (wires.has(wire.id)) return;
+
+            this.wires.delete(wire.id);
+            this.emit('wireRemoved', wire);
+        });
+
+        // Belts that disappear or now run between different ports
+        this.getEdges().forEach(edge => {
+            const target = edges.get(edge.id);
+            if (target && target.from === edge.from && target.to === edge.to && target.layer === edge.layer) return;
+
+            this.edges.delete(edge.id);
+            [edge.from, edge.to].forEach(portId => {
+                const port = this.ports.get(portId);
+                if (port) port.edgeId = null;
+            });
+            this.emit('edgeRemoved', edge);
+        });
+
+        this.getNodes().forEach(node => {
+            if (nodes.has(node.id)) return;
+
+            node.ports.forEach(portId => this.ports.delete(portId));
+            this.nodes.delete(node.id);
+            this.emit('nodeRemoved', node);
+        });
+
+        // Nodes that appear, change shape (recipe, ports) or move
+        const reshaped: GraphNode[] = [];
+        const changed: GraphNode[] = [];                 // Settings only, same ports
+        state.nodes.forEach(target => {
+            const copyPorts = () => target.ports.forEach(portId => {
+                const saved = ports.get(portId)!;
+                const port = { ...saved, filters: [...saved.filters] };
+                if (port.edgeId && !this.edges.has(port.edgeId)) port.edgeId = null;
+                this.ports.set(port.id, port);
+            });
+
+            const node = this.nodes.get(target.id);
+            if (!node) {
+                copyPorts();
+                const added = { ...target, ports: [...target.ports] };
+                this.nodes.set(added.id, added);
+                this.emit('nodeAdded', added);
+                return;
+            }
+
+            if (this.shapeOf(node, id => this.ports.get(id)!) !== this.shapeOf(target, id => ports.get(id)!)) {
+                const settingsOnly = this.shapeOf(node, id => this.ports.get(id)!, false)
+                    === this.shapeOf(target, id => ports.get(id)!, false);
+                node.ports.forEach(portId => this.ports.delete(portId));
+                copyPorts();
+                node.ports = [...target.ports];
+                node.machine = target.machine;
+                node.gridWidth = target.gridWidth;
+                node.gridHeight = target.gridHeight;
+                node.rotation = target.rotation;
+                node.recipe = target.recipe;
+                node.clockSpeed = target.clockSpeed;
+                node.somersloops = target.somersloops;
+                node.resource = target.resource;
+                node.purity = target.purity;
+                (settingsOnly ? changed : reshaped).push(node);
+            }
+
+            if (node.x !== target.x || node.y !== target.y) {
+                node.x = target.x;
+                node.y = target.y;
+                this.emit('nodeMoved', node);
+            }
+        });
+
+        // Belts that appear or change tier
+        state.edges.forEach(target => {
+            const edge = this.edges.get(target.id);
+            if (!edge) {
+                const added = { ...target };
+                this.edges.set(added.id, added);
+                this.ports.get(added.from)!.edgeId = added.id;
+                this.ports.get(added.to)!.edgeId = added.id;
+                this.emit('edgeAdded', added);
+            } else if (edge.tier !== target.tier) {
+                edge.tier = target.tier;
+                this.emit('edgeChanged', edge);
+            }
+        });
+
+        // Wires that appear
+        state.wires.forEach(target => {
+            if (this.wires.has(target.id)) return;
+
+            const added = { ...target };
+            this.wires.set(added.id, added);
+            this.emit('wireAdded', added);
+        });
+
+        reshaped.forEach(node => this.emit('portsChanged', node));
+        changed.forEach(node => this.emit('nodeChanged', node));
+    }
+
+    // ===== INTERNALS =====
+
+    /**
+     * Everything about a node except its position and belts, for change detection
+     * @param withSettings - Include what changes without touching the ports (see nodeChanged),
+     *                       splitter filters among them
+     */
+    private shapeOf(node: GraphNode, getPort: (portId: string) => GraphPort, withSettings: boolean = true): string {
+        const settings = withSettings
+            ? { clockSpeed: node.clockSpeed, somersloops: node.somersloops, resource: node.resource, purity: node.purity }
+            : {};
+        return JSON.stringify({
+            ...settings,
+            machine: node.machine,
+            gridWidth: node.gridWidth,
+            gridHeight: node.gridHeight,
+            rotation: node.rotation,
+            recipe: node.recipe?.name ?? null,
+            ports: node.ports.map(portId => {
+                const { edgeId, filters, ...port } = getPort(portId);
+                return withSettings ? { ...port, filters } : port;
+            })
+        });
+    }
+
+    private createNode(kind: NodeKind, x: number, y: number): GraphNode {
+        return {
+            id: this.generateId('n'),
+            kind,
+            x,
+            y,
+            ports: [],
+            machine: null,
+            gridWidth: 1,
+            gridHeight: 1,
+            rotation: 0,
+            recipe: null,
+            clockSpeed: DEFAULT_CLOCK_SPEED,
+            somersloops: 0,
+            resource: null,
+            purity: 'NORMAL'
+        };
+    }
+
+    /**
+     * Ports are placed on sides based on the unrotated footprint (see getFactorySides)
+     */
+    private createFactoryPorts(node: GraphNode, inputCount: number, outputCount: number): void {
+        const rotated = node.rotation % 2 !== 0;
+        const sides = getFactorySides(
+            rotated ? node.gridHeight : node.gridWidth,
+            rotated ? node.gridWidth : node.gridHeight,
+            node.rotation
+        );
+
+        // Unlabelled ports carry what the machine handles (pipes for fluid buffers)
+        const data = DataManager.getInstance();
+        const transportOf = (item: string | null) =>
+            item ? data.getTransportType(item) : data.getMachineTransport(node.machine!);
+
+        for (let i = 0; i < inputCount; i++) {
+            const item = node.recipe?.inputs[i]?.item ?? null;
+            this.createPort(node, 'INPUT', sides.input, item, transportOf(item));
+        }
+        for (let i = 0; i < outputCount; i++) {
+            const item = node.recipe?.outputs[i]?.item ?? null;
+            this.createPort(node, 'OUTPUT', sides.output, item, transportOf(item));
+        }
+    }
+
+    /**
+     * @param transport - Defaults to what the item travels on (belt for unlabelled ports)
+     */
+    private createPort(
+        node: GraphNode,
+        type: ConnectionType,
+        side: ConnectionSide | null,
+        item: string | null = null,
+        transport: TransportType = item ? DataManager.getInstance().getTransportType(item) : 'belt'
+    ): GraphPort {
+        const port: GraphPort = {
+            id: this.generateId('p'),
+            nodeId: node.id,
+            type,
+            side,
+            index: this.getPortsOfNode(node, type).length,
+            item,
+            transport,
+            filters: [],
+            edgeId: null
+        };
+
+        node.ports.push(port.id);
+        this.ports.set(port.id, port);
+        return port;
+    }
+
+    private clampTier(transport: TransportType, tier: number): number {
+        const count = transport === 'pipe' ? PIPE_TIERS.length : BELT_TIERS.length;
+        return Math.min(Math.max(Math.round(tier), 1), count);
+    }
+
+    /**
+     * Follow belts through the nodes that pass items on (endpoints, junctions, splitters
+     * and storages) until factory ports are reached. Both directions work alike: collect
+     * the items of every belt on the far side of the node, and at a splitter keep what
+     * the filters of the output on the traced path let through.
+     * @param via - Ports to follow: INPUT looks upstream, OUTPUT downstream
+     * @param visited - Nodes on the current path (a loop adds nothing new)
+     */
+    private traceItems(terminalId: string, via: ConnectionType, visited: Set<string>): string[] | null {
+        const node = this.resolveNode(terminalId);
+        if (!node) return null;
+
+        if (node.kind === 'FACTORY' && !DataManager.getInstance().isStorage(node.machine!)) {
+            const item = this.ports.get(terminalId)?.item;
+            return item ? [item] : null;
+        }
+        if (visited.has(node.id)) return [];
+        visited.add(node.id);
+
+        // Upstream everything arriving may leave through the traced output;
+        // downstream each output leads somewhere else
+        const trace = (port: GraphPort, edge: GraphEdge) => via === 'INPUT'
+            ? this.filterItems(node, this.ports.get(terminalId) ?? port, this.traceItems(edge.from, via, visited))
+            : this.filterItems(node, port, this.traceItems(edge.to, via, visited));
+
+        const items = new Set<string>();
+        let known = true;
+        for (const port of this.getPortsOfNode(node, via)) {
+            const edge = port.edgeId ? this.edges.get(port.edgeId) : undefined;
+            if (!edge) continue;
+
+            const found = trace(port, edge);
+            if (!found) known = false;
+            found?.forEach(item => items.add(item));
+        }
+
+        visited.delete(node.id);
+        return known && items.size > 0 ? Array.from(items) : null;
+    }
+
+    /**
+     * Items that may pass a splitter output, out of the given ones (null: any item).
+     * Other nodes let everything through.
+     */
+    private filterItems(node: GraphNode, port: GraphPort, items: string[] | null): string[] | null {
+        if (node.kind !== 'SPLITTER') return items;
+
+        const filters = port.filters;
+        if (filters.includes('ANY') || filters.includes('OVERFLOW')) return items;
+
+        // Items named on an output only go there; ANY_UNDEFINED takes the rest
+        const named = new Set(this.getPortsOfNode(node, 'OUTPUT').flatMap(output => output.filters));
+        if (filters.includes('ANY_UNDEFINED')) {
+            return items ? items.filter(item => filters.includes(item) || !named.has(item)) : null;
+        }
+        return items ? items.filter(item => filters.includes(item)) : [...filters];
+    }
+
+    private getPortsOfNode(node: GraphNode, type: ConnectionType): GraphPort[] {
+        return node.ports
+            .map(portId => this.ports.get(portId))
+            .filter((port): port is GraphPort => port !== undefined && port.type === type);
+    }
+
+    /**
+     * A terminal ID is either a port ID or the ID of an endpoint node
+     */
+    private resolveNode(terminalId: string): GraphNode | undefined {
+        const port = this.ports.get(terminalId);
+        if (port) return this.nodes.get(port.nodeId);
+
+        const node = this.nodes.get(terminalId);
+        return node?.kind === 'ENDPOINT' ? node : undefined;
+    }
+
+    private generateId(prefix: string): string {
+        return `${prefix}${this.nextId++}`;
+    }
+}
@@ -0,0 +1,375 @@
+import { GraphManager, GraphNode, GraphPort, NodeKind, ConnectionSide, SplitterType } from "./GraphManager";
+import { DataManager, TransportType } from "./DataManager";
+import { Purity } from "../utils/ResourceNodes";
+import { LevelData } from "../systems/ObjectiveSystem";
+
+// --- SAVE FORMAT ---
+// A layout is stored as one JSON document. IDs inside the document are only used to
+// link edges to nodes; fresh graph IDs are generated when the layout is loaded.
+//
+// {
+//   "format": "flow-factory-layout",
+//   "version": 1,
+//   "savedAt": "2024-01-01T12:00:00.000Z",
+//   "mode": "CAMPAIGN",
+//   "levelData": { "id": "level_01", "targetItem": "Iron Plate", "targetRate": 20, "startingMoney": 500 },
+//   "nodes": [
+//     { "id": "n1", "kind": "FACTORY", "x": 320, "y": 256,
+//       "machine": "Smelter", "gridWidth": 1, "gridHeight": 2, "rotation": 0,
+//       "recipe": "Iron Ingot", "inputs": 1, "outputs": 1, "clockSpeed": 150, "somersloops": 1 },
+//     { "id": "n2", "kind": "JUNCTION", "x": 480, "y": 256, "outputSides": ["RIGHT", "BOTTOM"] },
+//     { "id": "n3", "kind": "ENDPOINT", "x": 640, "y": 256 },
+//     { "id": "n4", "kind": "SPLITTER", "x": 560, "y": 352, "machine": "Smart Splitter",
+//       "rotation": 0, "filters": [[], ["Iron Ore"], ["ANY_UNDEFINED"], ["OVERFLOW"]] },
+//     { "id": "n5", "kind": "POWER_POLE", "x": 400, "y": 160 },
+//     { "id": "n6", "kind": "RESOURCE", "x": 336, "y": 272, "resource": "Iron Ore", "purity": "PURE" },
+//     { "id": "n7", "kind": "FACTORY", "x": 192, "y": 256, "machine": "Spawn", ...,
+//       "spawn": { "item": "Iron Ore", "rate": null } }
+//   ],
+//   "edges": [
+//     { "from": { "node": "n1", "port": 1 }, "to": { "node": "n2", "port": 0 },
+//       "layer": 0, "tier": 1 }
+//   ],
+//   "wires": [
+//     { "a": "n1", "b": "n5" }
+//   ]
+// }
+//
+// Edge terminals reference a port by its position in the node's port list.
+// Belt endpoints create their ports per belt, so their terminals have "port": null.
+// Factory sizes are stored as placed (after rotation); "rotation" defaults to 0,
+// "clockSpeed" to 100 and "somersloops" to 0.
+// Junctions without "outputSides" use the default sides (RIGHT and BOTTOM out);
+// pipe junctions carry "transport": "pipe". Belts and pipes are told apart by their ports.
+// Splitter "filters" has one list per port, in port order (the input's list stays empty).
+// Power "wires" join two nodes by their saved IDs; layouts without them have no grid.
+// Extractors store their generated recipe like any factory; "purity" defaults to NORMAL.
+// Spawns store their item and rate instead of a recipe; a null rate is unlimited.
+// Storages save like recipe-less factories; what they hold is simulation state and is not saved.
+// "mode" and "levelData" record the game the layout belongs to; without them it is a sandbox layout.
+// Milestone progress is not saved: a loaded campaign layout has to sustain its rates again.
+//
+// Version 1 grows additively: every field added after the first release of the format is
+// optional and has a default (listed above), so every version 1 document still loads.
+// The version only goes up for a change an older document would be misread under
+// (a field renamed, removed or given a new meaning).
+
+export const SAVE_FORMAT = 'flow-factory-layout';
+export const SAVE_VERSION = 1;
+
+export interface SavedNode {
+    id: string;
+    kind: NodeKind;
+    x: number;
+    y: number;
+    // Factory-only properties
+    machine?: string;
+    gridWidth?: number;
+    gridHeight?: number;
+    rotation?: number;           // Quarter turns clockwise
+    recipe?: string | null;
+    inputs?: number;             // Port counts, used when the recipe is unknown
+    outputs?: number;
+    clockSpeed?: number;         // Percent
+    somersloops?: number;
+    spawn?: { item: string, rate: number | null }; // Spawns only
+    // Junction-only properties
+    outputSides?: ConnectionSide[];
+    transport?: TransportType;   // Defaults to belt
+    // Splitter-only properties (plus machine and rotation)
+    filters?: string[][];
+    // Resource node properties
+    resource?: string;
+    purity?: Purity;
+}
+
+export interface SavedTerminal {
+    node: string;
+    port: number | null;
+}
+
+export interface SavedEdge {
+    from: SavedTerminal;
+    to: SavedTerminal;
+    layer: number;
+    tier: number;
+}
+
+export interface SavedWire {
+    a: string;
+    b: string;
+}
+
+export interface SaveData {
+    format: string;
+    version: number;
+    savedAt: string;
+    mode?: 'CAMPAIGN' | 'SANDBOX';
+    levelData?: LevelData | null;
+    nodes: SavedNode[];
+    edges: SavedEdge[];
+    wires?: SavedWire[];
+}
+
+/**
+ * Converts the graph to and from the versioned save document and keeps
+ * the last save in the browser's local storage.
+ */
+export class SaveManager {
+    private static readonly STORAGE_KEY = 'flowfactory.save';
+
+    /**
+     * Capture the current layout
+     * @param mode - Game the layout belongs to (with its campaign level, if any)
+     */
+    public static serialize(
+        graph: GraphManager,
+        mode: 'CAMPAIGN' | 'SANDBOX' = 'SANDBOX',
+        levelData: LevelData | null = null
+    ): SaveData {
+        const nodes: SavedNode[] = graph.getNodes().map(node => {
+            const saved: SavedNode = { id: node.id, kind: node.kind, x: node.x, y: node.y };
+
+            if (node.kind === 'FACTORY') {
+                saved.machine = node.machine!;
+                saved.gridWidth = node.gridWidth;
+                saved.gridHeight = node.gridHeight;
+                saved.rotation = node.rotation;
+                saved.recipe = node.recipe?.name ?? null;
+                saved.inputs = graph.getPorts(node.id, 'INPUT').length;
+                saved.outputs = graph.getPorts(node.id, 'OUTPUT').length;
+                saved.clockSpeed = node.clockSpeed;
+                saved.somersloops = node.somersloops;
+
+                const output = node.recipe?.outputs[0];
+                if (DataManager.getInstance().isSpawn(node.machine!) && output) {
+                    saved.recipe = null;
+                    saved.spawn = { item: output.item, rate: output.quantity === Infinity ? null : output.quantity };
+                }
+            } else if (node.kind === 'JUNCTION') {
+                saved.outputSides = graph.getPorts(node.id, 'OUTPUT').map(port => port.side!);
+                if (graph.getTransport(node.ports[0]) === 'pipe') saved.transport = 'pipe';
+            } else if (node.kind === 'SPLITTER') {
+                saved.machine = node.machine!;
+                saved.rotation = node.rotation;
+                saved.filters = graph.getPorts(node.id).map(port => [...port.filters]);
+            } else if (node.kind === 'RESOURCE') {
+                saved.resource = node.resource!;
+                saved.purity = node.purity;
+            }
+
+            return saved;
+        });
+
+        const edges: SavedEdge[] = graph.getEdges().map(edge => ({
+            from: this.saveTerminal(graph, graph.getPort(edge.from)!),
+            to: this.saveTerminal(graph, graph.getPort(edge.to)!),
+            layer: edge.layer,
+            tier: edge.tier
+        }));
+
+        const wires: SavedWire[] = graph.getWires().map(wire => ({ a: wire.a, b: wire.b }));
+
+        return {
+            format: SAVE_FORMAT,
+            version: SAVE_VERSION,
+            savedAt: new Date().toISOString(),
+            mode,
+            levelData,
+            nodes,
+            edges,
+            wires
+        };
+    }
+
+    /**
+     * Replace the graph content with a saved layout.
+     * Returns the number of belts and wires that could not be restored.
+     */
+    public static restore(graph: GraphManager, data: SaveData): number {
+        graph.clear();
+
+        const dataManager = DataManager.getInstance();
+        const nodeIds = new Map<string, GraphNode>(); // Saved ID -> restored node
+
+        data.nodes.forEach(saved => {
+            let node: GraphNode;
+
+            switch (saved.kind) {
+                case 'FACTORY': {
+                    const machine = saved.machine ?? 'Constructor';
+                    const size = dataManager.getMachineSize(machine);
+                    const recipe = saved.spawn
+                        ? dataManager.getSpawnRecipe(saved.spawn.item, saved.spawn.rate ?? Infinity)
+                        : saved.recipe ? dataManager.getRecipe(saved.recipe) ?? null : null;
+                    const rotation = saved.rotation ?? 0;
+
+                    // addFactory takes the unrotated footprint
+                    let width = size.w;
+                    let height = size.h;
+                    if (saved.gridWidth !== undefined && saved.gridHeight !== undefined) {
+                        [width, height] = rotation % 2 === 0
+                            ? [saved.gridWidth, saved.gridHeight]
+                            : [saved.gridHeight, saved.gridWidth];
+                    }
+
+                    node = graph.addFactory(
+                        machine,
+                        saved.x,
+                        saved.y,
+                        width,
+                        height,
+                        recipe,
+                        recipe ? recipe.inputs.length : saved.inputs ?? 0,
+                        recipe ? recipe.outputs.length : saved.outputs ?? 0,
+                        rotation
+                    );
+                    if (saved.clockSpeed !== undefined) {
+                        graph.setClockSpeed(node.id, saved.clockSpeed);
+                    }
+                    if (saved.somersloops !== undefined) {
+                        graph.setSomersloops(node.id, saved.somersloops);
+                    }
+                    break;
+                }
+                case 'JUNCTION':
+                    node = graph.addJunction(saved.x, saved.y, saved.transport ?? 'belt');
+                    if (saved.outputSides) {
+                        this.restoreSides(graph, node, saved.outputSides);
+                    }
+                    break;
+                case 'SPLITTER':
+                    node = graph.addSplitter((saved.machine ?? 'Smart Splitter') as SplitterType, saved.x, saved.y, saved.rotation ?? 0);
+                    saved.filters?.forEach((filters, index) => {
+                        const portId = node.ports[index];
+                        if (portId) graph.setPortFilters(portId, filters);
+                    });
+                    break;
+                case 'ENDPOINT':
+                    node = graph.addEndpoint(saved.x, saved.y);
+                    break;
+                case 'POWER_POLE':
+                    node = graph.addPowerPole(saved.x, saved.y);
+                    break;
+                case 'RESOURCE':
+                    node = graph.addResourceNode(saved.resource ?? 'Iron Ore', saved.purity ?? 'NORMAL', saved.x, saved.y);
+                    break;
+                default:
+                    return;
+            }
+
+            nodeIds.set(saved.id, node);
+        });
+
+        let failed = 0;
+        data.edges.forEach(saved => {
+            const from = this.resolveTerminal(nodeIds, saved.from);
+            const to = this.resolveTerminal(nodeIds, saved.to);
+
+            if (!from || !to || !graph.connect(from, to, saved.layer ?? 0, saved.tier)) {
+                failed++;
+            }
+        });
+
+        data.wires?.forEach(saved => {
+            const a = nodeIds.get(saved.a);
+            const b = nodeIds.get(saved.b);
+
+            if (!a || !b || !graph.addWire(a.id, b.id)) {
+                failed++;
+            }
+        });
+
+        // Endpoints whose belts could not be restored
+        graph.getNodes()
+            .filter(node => node.kind === 'ENDPOINT' && node.ports.length === 0)
+            .forEach(node => graph.removeNode(node.id));
+
+        return failed;
+    }
+
+    /**
+     * Turn junction sides to match the save. Each side change has to keep one input and
+     * one output, so sides are flipped over a few passes until everything fits.
+     */
+    private static restoreSides(graph: GraphManager, node: GraphNode, outputSides: ConnectionSide[]): void {
+        const ports = graph.getPorts(node.id);
+
+        for (let pass = 0; pass < ports.length; pass++) {
+            ports.forEach(port => {
+                graph.setPortType(port.id, outputSides.includes(port.side!) ? 'OUTPUT' : 'INPUT');
+            });
+        }
+    }
+
+    /**
+     * Parse and validate a save document.
+     * Throws if the text is not a layout this version can read.
+     */
+    public static parse(json: string): SaveData {
+        const data = JSON.parse(json);
+
+        if (!data || data.format !== SAVE_FORMAT) {
+            throw new Error('Not a Flow Factory layout');
+        }
+        if (typeof data.version !== 'number' || data.version > SAVE_VERSION) {
+            throw new Error(`Unsupported save version: ${data.version}`);
+        }
+        if (!Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+            throw new Error('Corrupted save: missing nodes or edges');
+        }
+        if (data.wires !== undefined && !Array.isArray(data.wires)) {
+            throw new Error('Corrupted save: wires are not a list');
+        }
+        if (data.mode !== undefined && data.mode !== 'CAMPAIGN' && data.mode !== 'SANDBOX') {
+            throw new Error(`Corrupted save: unknown mode ${data.mode}`);
+        }
+
+        return data as SaveData;
+    }
+
+    // ===== LOCAL STORAGE =====
+
+    public static saveToStorage(data: SaveData): void {
+        window.localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+    }
+
+    /**
+     * The stored layout, or null if there is none (or it cannot be read)
+     */
+    public static loadFromStorage(): SaveData | null {
+        const json = window.localStorage.getItem(this.STORAGE_KEY);
+        if (!json) return null;
+
+        try {
+            return this.parse(json);
+        } catch (error) {
+            console.warn('Ignoring saved layout:', error);
+            return null;
+        }
+    }
+
+    // ===== INTERNALS =====
+
+    private static saveTerminal(graph: GraphManager, port: GraphPort): SavedTerminal {
+        const node = graph.getNode(port.nodeId)!;
+        return {
+            node: node.id,
+            port: node.kind === 'ENDPOINT' ? null : node.ports.indexOf(port.id)
+        };
+    }
+
+    /**
+     * Map a saved terminal to a terminal ID of the restored graph
+     */
+    private static resolveTerminal(
+        nodeIds: Map<string, GraphNode>,
+        terminal: SavedTerminal
+    ): string | null {
+        const node = nodeIds.get(terminal.node);
+        if (!node) return null;
+
+        if (node.kind === 'ENDPOINT') return node.id;
+        return terminal.port !== null ? node.ports[terminal.port] ?? null : null;
+    }
+}
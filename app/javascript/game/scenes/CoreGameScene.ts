@@ -1,4 +1,5 @@
 import Phaser from "phaser";
+import { OccupancyGrid, TileRect } from "../utils/OccupancyGrid";
 
 export class CoreGameScene extends Phaser.Scene {
     // Grid Configuration
@@ -10,6 +11,9 @@ export class CoreGameScene extends Phaser.Scene {
     public map!: Phaser.Tilemaps.Tilemap;
     public baseLayer!: Phaser.Tilemaps.TilemapLayer;
 
+    // Tiles covered by buildings (placement validation)
+    protected occupancy!: OccupancyGrid;
+
     // Camera State
     protected controls: Phaser.Cameras.Scene2D.Camera | null = null;
     protected cursors: Phaser.Types.Input.Keyboard.CursorKeys | null = null;
@@ -44,6 +48,7 @@ export class CoreGameScene extends Phaser.Scene {
         this.game.canvas.oncontextmenu = (e) => e.preventDefault();
 
         this.createTilemap();
+        this.occupancy = new OccupancyGrid(this.MAP_WIDTH_TILES, this.MAP_HEIGHT_TILES);
         this.setupCamera();
         this.setupInputs();
 
@@ -196,4 +201,17 @@ export class CoreGameScene extends Phaser.Scene {
 
         return new Phaser.Math.Vector2(worldPoint?.x || 0, worldPoint?.y || 0);
     }
+
+    // --- HELPER: Tiles covered by a world-space rectangle (partially covered tiles count) ---
+    public getTileRect(worldX: number, worldY: number, pixelWidth: number, pixelHeight: number): TileRect {
+        const x = Math.floor(worldX / this.TILE_SIZE);
+        const y = Math.floor(worldY / this.TILE_SIZE);
+
+        return {
+            x,
+            y,
+            width: Math.ceil((worldX + pixelWidth) / this.TILE_SIZE) - x,
+            height: Math.ceil((worldY + pixelHeight) / this.TILE_SIZE) - y
+        };
+    }
 }
\ No newline at end of file
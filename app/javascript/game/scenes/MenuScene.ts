@@ -1,4 +1,5 @@
 import Phaser from "phaser"
+import { SaveManager } from "../managers/SaveManager"
 
 export class MenuScene extends Phaser.Scene {
     constructor() {
@@ -59,7 +60,7 @@ export class MenuScene extends Phaser.Scene {
             'Complete objectives and unlock new tiers',
             '#FF6B35',
             () => {
-                this.scene.start('WorkbenchScene', {
+                this.scene.start('WorkbenchSceneNew', {
                     mode: 'CAMPAIGN',
                     levelData: {
                         id: 'level_01',
@@ -79,7 +80,7 @@ export class MenuScene extends Phaser.Scene {
             'Unlimited resources and creative freedom',
             '#4ECDC4',
             () => {
-                this.scene.start('WorkbenchScene', {
+                this.scene.start('WorkbenchSceneNew', {
                     mode: 'SANDBOX',
                     levelData: null
                 });
@@ -94,7 +95,18 @@ export class MenuScene extends Phaser.Scene {
             loadStartY,
             'Load Saved Game',
             () => {
-                console.log("Load Game clicked - Feature pending");
+                const save = SaveManager.loadFromStorage();
+                if (!save) {
+                    loadBtn.setText('No Saved Game Found');
+                    return;
+                }
+
+                // Back into the game the layout was saved in
+                this.scene.start('WorkbenchSceneNew', {
+                    mode: save.mode ?? 'SANDBOX',
+                    levelData: save.levelData ?? null,
+                    save
+                });
             }
         );
 
@@ -0,0 +1,630 @@
+import { DataManager, RecipeDef } from "../managers/DataManager";
+import { GraphManager, GraphNode, GraphEdge, GraphPort } from "../managers/GraphManager";
+import { BeltFlow, FlowResult } from "./FlowSystem";
+import { StorageSystem } from "./StorageSystem";
+import { itemsPerMinute } from "../utils/RecipeMath";
+import { getClockMultiplier } from "../utils/ClockSpeed";
+import { getAmplification } from "../utils/Somersloops";
+import { getBeltCapacity } from "../utils/BeltTiers";
+import { getPipeCapacity } from "../utils/PipeTiers";
+
+/**
+ * An item (or 1 m³ of fluid) travelling along a belt
+ */
+export interface TransitItem {
+    item: string;
+    position: number;             // Tiles from the start of the belt
+}
+
+/**
+ * What one buffer slot of a machine holds
+ */
+export interface BufferLevel {
+    item: string;
+    count: number;
+    capacity: number;
+}
+
+/**
+ * Buffers and craft progress of a machine (for the inspector)
+ */
+export interface MachineReport {
+    inputs: BufferLevel[];
+    outputs: BufferLevel[];
+    progress: number | null;      // Share of the current craft cycle done (null for continuous machines)
+}
+
+/**
+ * What happened since the previous collect
+ */
+export interface DiscreteSample {
+    result: FlowResult;           // Rates averaged over the last RATE_WINDOW simulated seconds
+    seconds: number;              // Simulated time since the previous collect
+    sunk: Map<string, Map<string, number>>; // Sink -> item -> count taken since the previous collect
+}
+
+/**
+ * Items handed over and time spent running during one collect interval
+ */
+interface RateSample {
+    seconds: number;
+    delivered: Map<string, Map<string, number>>; // Edge -> item -> count
+    busy: Map<string, number>;                   // Node -> seconds
+}
+
+/**
+ * Buffers and craft progress of one factory
+ */
+interface MachineState {
+    recipe: RecipeDef | null;     // Recipe the buffers were filled for (a new recipe starts empty)
+    inputs: Map<string, number>;  // Item -> count waiting to be crafted
+    outputs: Map<string, number>; // Item -> count waiting to leave
+    crafting: boolean;
+    progress: number;             // Recipe seconds into the current craft cycle
+    busy: number;                 // Seconds spent running since the previous collect
+}
+
+interface BeltState {
+    items: TransitItem[];         // Front (next to arrive) first
+    jammed: boolean;              // The front item could not be handed over in the last step
+    delivered: Map<string, number>; // Item -> count handed to the target since the previous collect
+}
+
+/**
+ * Time-stepped counterpart of the FlowSystem, for watching start-up and buffers.
+ * Machines run whole craft cycles: a cycle starts once the input buffers hold its
+ * ingredients and the output buffers have room for its products (one stack per slot,
+ * 50 m³ for fluids, at least one cycle's worth). Recipes without ingredients or products
+ * (extractors, spawns, generators) run continuously instead.
+ * Belts and pipes carry single items (1 m³ per unit of fluid) at the tier speed;
+ * an item that cannot be handed over waits at the end of its belt, so a full machine
+ * backs up its belts and, through them, the machines feeding it.
+ * Junctions pass items on round robin, splitters by their filters (OVERFLOW last),
+ * storages take what fits and send out their stock, sinks take everything.
+ * Works purely on the GraphManager topology (no Phaser dependency).
+ */
+export class DiscreteFlowSystem {
+    // Simulated seconds per step (short enough for one Mk6 belt item per step)
+    public static readonly TIME_STEP = 0.05;
+    // Items on one tile of a packed belt
+    public static readonly ITEMS_PER_TILE = 2;
+    // Machine buffer slot for fluids (m³); solid slots hold a stack
+    public static readonly FLUID_SLOT = 50;
+    // Simulated seconds the reported rates are averaged over (single items make short windows jumpy)
+    public static readonly RATE_WINDOW = 10;
+
+    private static readonly EPSILON = 1e-6;
+
+    private machines: Map<string, MachineState> = new Map();
+    private belts: Map<string, BeltState> = new Map();
+    private nextOutput: Map<string, number> = new Map();     // Junction/splitter -> output belt that gets the next item
+    private blocked: Map<string, Set<string>> = new Map();   // Splitter -> items that found no output in the last step
+    private nextInput: Map<string, number> = new Map();      // Node -> input belt that goes first next step
+    private takes: Map<string, ReadonlySet<string> | null> = new Map(); // Belt -> items its target takes (null: any)
+    private pending: number = 0;                             // Simulated time not stepped yet (s)
+    private elapsed: number = 0;                             // Simulated time since the last collect (s)
+    private history: RateSample[] = [];
+    private lastResult: FlowResult | null = null;
+
+    constructor(
+        private storage: StorageSystem,
+        private data: DataManager = DataManager.getInstance()
+    ) {}
+
+    /**
+     * Run the simulation for a while (in whole steps; the rest carries over)
+     * @param stopped - Factories that cannot run (e.g. on a tripped power grid)
+     * @param lengthOf - Length of a belt in tiles
+     */
+    public advance(
+        graph: GraphManager,
+        seconds: number,
+        stopped: ReadonlySet<string>,
+        lengthOf: (edge: GraphEdge) => number
+    ): void {
+        this.pending += seconds;
+        this.takes.clear();
+        graph.getEdges().forEach(edge => {
+            const items = graph.getItemsAcceptedAt(edge.to);
+            this.takes.set(edge.id, items ? new Set(items) : null);
+        });
+
+        while (this.pending >= DiscreteFlowSystem.TIME_STEP - DiscreteFlowSystem.EPSILON) {
+            this.pending -= DiscreteFlowSystem.TIME_STEP;
+            this.step(graph, stopped, lengthOf);
+        }
+    }
+
+    /**
+     * Rates in the FlowSystem's format (no clusters) and what the sinks took since the
+     * previous call. Belts are marked saturated while they are backed up end to end.
+     */
+    public collect(graph: GraphManager): DiscreteSample {
+        this.prune(graph);
+
+        const seconds = this.elapsed;
+        if (seconds <= 0) {
+            return { result: this.lastResult ?? this.emptyResult(), seconds: 0, sunk: new Map() };
+        }
+        this.elapsed = 0;
+
+        const sample: RateSample = { seconds, delivered: new Map(), busy: new Map() };
+        this.belts.forEach((belt, edgeId) => {
+            sample.delivered.set(edgeId, new Map(belt.delivered));
+            belt.delivered.clear();
+        });
+        this.machines.forEach((state, nodeId) => {
+            sample.busy.set(nodeId, state.busy);
+            state.busy = 0;
+        });
+
+        // Drop samples that fell out of the window
+        this.history.push(sample);
+        let span = this.history.reduce((sum, entry) => sum + entry.seconds, 0);
+        while (this.history.length > 1 && span - this.history[0].seconds >= DiscreteFlowSystem.RATE_WINDOW) {
+            span -= this.history.shift()!.seconds;
+        }
+
+        const result = this.emptyResult();
+        const sunk = new Map<string, Map<string, number>>();
+
+        graph.getNodes().forEach(node => {
+            if (node.kind !== 'FACTORY') return;
+            const busy = this.history.reduce((sum, entry) => sum + (entry.busy.get(node.id) || 0), 0);
+            result.factoryEfficiency.set(node.id, Math.min(1, busy / span));
+        });
+
+        graph.getEdges().forEach(edge => {
+            const items = new Map<string, number>();
+            this.history.forEach(entry => entry.delivered.get(edge.id)?.forEach((count, item) => {
+                items.set(item, (items.get(item) || 0) + count * 60 / span);
+            }));
+
+            const rate = Array.from(items.values()).reduce((sum, value) => sum + value, 0);
+            let item: string | null = null;
+            items.forEach((value, name) => {
+                if (item === null || value > items.get(item)!) item = name;
+            });
+
+            const belt = this.belts.get(edge.id);
+            const flow: BeltFlow = {
+                item,
+                rate,
+                items,
+                capacity: this.capacityOf(edge),
+                saturated: belt !== undefined && belt.jammed && !this.hasRoom(belt)
+            };
+            result.beltFlows.set(edge.id, flow);
+
+            const target = graph.getNodeOfPort(edge.to)!;
+            if (target.kind === 'FACTORY' && this.data.isSink(target.machine!)) {
+                const taken = sunk.get(target.id) || new Map<string, number>();
+                sample.delivered.get(edge.id)?.forEach((count, name) => taken.set(name, (taken.get(name) || 0) + count));
+                sunk.set(target.id, taken);
+            }
+
+            [edge.from, edge.to].forEach(portId => {
+                const port = graph.getPort(portId)!;
+                const kind = graph.getNode(port.nodeId)!.kind;
+                if ((kind !== 'JUNCTION' && kind !== 'SPLITTER') || !port.side) return;
+
+                if (!result.sideRates.has(port.nodeId)) result.sideRates.set(port.nodeId, new Map());
+                result.sideRates.get(port.nodeId)!.set(port.side, rate);
+            });
+        });
+
+        graph.getNodes().forEach(node => {
+            if (node.kind !== 'SPLITTER') return;
+
+            const arriving = new Map<string, number>();
+            graph.getPorts(node.id, 'INPUT').forEach(port => {
+                const flow = port.edgeId ? result.beltFlows.get(port.edgeId) : undefined;
+                flow?.items.forEach((rate, item) => arriving.set(item, (arriving.get(item) || 0) + rate));
+            });
+            result.splitterFlows.set(node.id, { arriving, blocked: Array.from(this.blocked.get(node.id) ?? []) });
+        });
+
+        this.lastResult = result;
+        return { result, seconds, sunk };
+    }
+
+    /**
+     * Items on a belt, front first
+     */
+    public getTransit(edgeId: string): TransitItem[] {
+        return this.belts.get(edgeId)?.items ?? [];
+    }
+
+    /**
+     * Buffers and craft progress of a factory (undefined while it has no recipe)
+     */
+    public getMachineReport(graph: GraphManager, nodeId: string): MachineReport | undefined {
+        const node = graph.getNode(nodeId);
+        const recipe = node?.recipe;
+        if (!node || !recipe) return undefined;
+
+        const state = this.getMachine(node);
+        const amplification = this.getAmplification(node);
+        return {
+            inputs: recipe.inputs.map(input => ({
+                item: input.item,
+                count: state.inputs.get(input.item) || 0,
+                capacity: this.bufferCapacity(input.item, input.quantity)
+            })),
+            outputs: recipe.outputs.map(output => ({
+                item: output.item,
+                count: state.outputs.get(output.item) || 0,
+                capacity: this.bufferCapacity(output.item, output.quantity * amplification)
+            })),
+            progress: this.isContinuous(recipe) ? null : state.progress / recipe.craftTime
+        };
+    }
+
+    /**
+     * Start over with empty machines and belts (storages keep their contents)
+     */
+    public reset(): void {
+        this.machines.clear();
+        this.belts.clear();
+        this.nextOutput.clear();
+        this.nextInput.clear();
+        this.blocked.clear();
+        this.takes.clear();
+        this.pending = 0;
+        this.elapsed = 0;
+        this.history = [];
+        this.lastResult = null;
+    }
+
+    // ===== STEPPING =====
+
+    private step(graph: GraphManager, stopped: ReadonlySet<string>, lengthOf: (edge: GraphEdge) => number): void {
+        const dt = DiscreteFlowSystem.TIME_STEP;
+        this.elapsed += dt;
+        this.blocked.clear();
+
+        graph.getNodes().forEach(node => {
+            if (node.kind === 'FACTORY') this.runMachine(node, dt, stopped.has(node.id));
+        });
+
+        // Belts hand over their front items; the inputs of a node take turns going first
+        const edges = graph.getEdges();
+        const byTarget = new Map<string, GraphEdge[]>();
+        edges.forEach(edge => {
+            const targetId = graph.getNodeOfPort(edge.to)!.id;
+            if (!byTarget.has(targetId)) byTarget.set(targetId, []);
+            byTarget.get(targetId)!.push(edge);
+        });
+
+        const minimum = 1 / DiscreteFlowSystem.ITEMS_PER_TILE;
+        byTarget.forEach((group, targetId) => {
+            const start = this.nextInput.get(targetId) || 0;
+            group.forEach((_, offset) => {
+                const index = (start + offset) % group.length;
+                const edge = group[index];
+                if (this.moveBelt(graph, edge, Math.max(lengthOf(edge), minimum), dt, stopped)) {
+                    this.nextInput.set(targetId, index + 1);
+                }
+            });
+        });
+
+        // Then sources load new items
+        edges.forEach(edge => this.loadBelt(graph, edge));
+    }
+
+    /**
+     * Run a machine's recipe for one step: whole craft cycles, or continuously for
+     * recipes without ingredients or products
+     */
+    private runMachine(node: GraphNode, dt: number, stopped: boolean): void {
+        const state = this.getMachine(node);
+        const recipe = node.recipe;
+
+        if (this.data.isSink(node.machine!)) {
+            if (!stopped) state.busy += dt;
+            return;
+        }
+        if (!recipe || stopped || this.data.isStorage(node.machine!)) return;
+
+        const clock = getClockMultiplier(node.clockSpeed);
+        const amplification = this.getAmplification(node);
+
+        if (this.isContinuous(recipe)) {
+            // Share of the step the buffers allow
+            let share = 1;
+            recipe.inputs.forEach(input => {
+                const need = itemsPerMinute(input.quantity, recipe.craftTime) * clock * dt / 60;
+                if (need > 0) share = Math.min(share, (state.inputs.get(input.item) || 0) / need);
+            });
+            recipe.outputs.forEach(output => {
+                const make = itemsPerMinute(output.quantity, recipe.craftTime) * clock * amplification * dt / 60;
+                const room = this.bufferCapacity(output.item, output.quantity * amplification) - (state.outputs.get(output.item) || 0);
+                if (make > 0 && make < Infinity) share = Math.min(share, Math.max(0, room) / make);
+            });
+
+            recipe.inputs.forEach(input => {
+                const need = itemsPerMinute(input.quantity, recipe.craftTime) * clock * dt / 60;
+                state.inputs.set(input.item, Math.max(0, (state.inputs.get(input.item) || 0) - need * share));
+            });
+            recipe.outputs.forEach(output => {
+                const make = itemsPerMinute(output.quantity, recipe.craftTime) * clock * amplification * dt / 60;
+                const capacity = this.bufferCapacity(output.item, output.quantity * amplification);
+                // Unlimited spawns fill their buffer outright
+                const next = make === Infinity ? capacity : (state.outputs.get(output.item) || 0) + make * share;
+                state.outputs.set(output.item, Math.min(capacity, next));
+            });
+
+            state.busy += dt * share;
+            return;
+        }
+
+        // Craft cycles (clock speed shortens them)
+        let time = dt * clock;
+        let busy = 0;
+        while (time > DiscreteFlowSystem.EPSILON) {
+            if (!state.crafting) {
+                if (!this.canStartCycle(state, recipe, amplification)) break;
+
+                recipe.inputs.forEach(input => {
+                    state.inputs.set(input.item, Math.max(0, state.inputs.get(input.item)! - input.quantity));
+                });
+                state.crafting = true;
+                state.progress = 0;
+            }
+
+            const run = Math.min(time, recipe.craftTime - state.progress);
+            state.progress += run;
+            time -= run;
+            busy += run;
+
+            if (state.progress >= recipe.craftTime - DiscreteFlowSystem.EPSILON) {
+                recipe.outputs.forEach(output => {
+                    state.outputs.set(output.item, (state.outputs.get(output.item) || 0) + output.quantity * amplification);
+                });
+                state.crafting = false;
+                state.progress = 0;
+            }
+        }
+        state.busy += busy / clock;
+    }
+
+    /**
+     * A cycle needs all its ingredients and room for all its products
+     */
+    private canStartCycle(state: MachineState, recipe: RecipeDef, amplification: number): boolean {
+        return recipe.inputs.every(input =>
+            (state.inputs.get(input.item) || 0) >= input.quantity - DiscreteFlowSystem.EPSILON
+        ) && recipe.outputs.every(output => {
+            const made = output.quantity * amplification;
+            return (state.outputs.get(output.item) || 0) + made <= this.bufferCapacity(output.item, made) + DiscreteFlowSystem.EPSILON;
+        });
+    }
+
+    /**
+     * Move the items on a belt forward at the tier speed; the front item is handed
+     * to the target when it reaches the end, or waits there
+     * @returns true if an item was handed over
+     */
+    private moveBelt(
+        graph: GraphManager,
+        edge: GraphEdge,
+        length: number,
+        dt: number,
+        stopped: ReadonlySet<string>
+    ): boolean {
+        const belt = this.getBelt(edge.id);
+        const spacing = 1 / DiscreteFlowSystem.ITEMS_PER_TILE;
+        const distance = this.capacityOf(edge) / 60 * spacing * dt;
+
+        belt.jammed = false;
+
+        let handed = false;
+        const kept: TransitItem[] = [];
+        belt.items.forEach(entry => {
+            const reached = entry.position + distance;
+            const ahead = kept[kept.length - 1];
+
+            if (!ahead && reached >= length - DiscreteFlowSystem.EPSILON) {
+                if (this.deliver(graph, edge, entry.item, stopped)) {
+                    belt.delivered.set(entry.item, (belt.delivered.get(entry.item) || 0) + 1);
+                    handed = true;
+                    return;
+                }
+                belt.jammed = true;
+            }
+
+            entry.position = Math.min(reached, length, ahead ? ahead.position - spacing : Infinity);
+            kept.push(entry);
+        });
+        belt.items = kept;
+        return handed;
+    }
+
+    /**
+     * Put the next item from the source's output buffer (or stock) on a belt
+     */
+    private loadBelt(graph: GraphManager, edge: GraphEdge): void {
+        const belt = this.getBelt(edge.id);
+        const source = graph.getNodeOfPort(edge.from)!;
+        if (source.kind !== 'FACTORY' || !this.hasRoom(belt)) return;
+
+        if (this.data.isStorage(source.machine!)) {
+            const item = this.storage.take(source.id, 1);
+            if (item) this.enter(belt, item);
+            return;
+        }
+
+        const state = this.getMachine(source);
+        const item = source.recipe?.outputs[graph.getPort(edge.from)!.index]?.item;
+        if (item && (state.outputs.get(item) || 0) >= 1 - DiscreteFlowSystem.EPSILON) {
+            state.outputs.set(item, state.outputs.get(item)! - 1);
+            this.enter(belt, item);
+        }
+    }
+
+    /**
+     * Hand an item at the end of a belt to its target
+     * @returns false if the target cannot take it (the item waits)
+     */
+    private deliver(graph: GraphManager, edge: GraphEdge, item: string, stopped: ReadonlySet<string>): boolean {
+        const target = graph.getNodeOfPort(edge.to)!;
+
+        switch (target.kind) {
+            case 'FACTORY': {
+                if (this.data.isSink(target.machine!)) return !stopped.has(target.id);
+                if (this.data.isStorage(target.machine!)) return this.storage.store(graph, target.id, item, 1);
+
+                const input = target.recipe?.inputs.find(ingredient => ingredient.item === item);
+                if (!input) return false; // Wrong items clog the belt
+
+                const state = this.getMachine(target);
+                const count = state.inputs.get(item) || 0;
+                if (count + 1 > this.bufferCapacity(item, input.quantity) + DiscreteFlowSystem.EPSILON) return false;
+
+                state.inputs.set(item, count + 1);
+                return true;
+            }
+            case 'SPLITTER':
+                return this.routeSplitter(graph, target, item);
+            default: {
+                // Junctions and belt endpoints pass items on round robin to the belts leading
+                // somewhere that takes them; a dead end takes everything
+                const outputs = graph.getEdgesOf(target.id).filter(out => graph.getNodeOfPort(out.from)!.id === target.id);
+                if (outputs.length === 0) return true;
+                return this.passOn(target.id, outputs, item);
+            }
+        }
+    }
+
+    /**
+     * Send an item to the next output matching it that has room; OVERFLOW outputs
+     * take what fits nowhere else
+     */
+    private routeSplitter(graph: GraphManager, splitter: GraphNode, item: string): boolean {
+        const outputs = graph.getPorts(splitter.id, 'OUTPUT');
+        const named = new Set(outputs.flatMap(port => port.filters));
+        const connected = (ports: GraphPort[]) => ports
+            .filter(port => port.edgeId !== null)
+            .map(port => graph.getEdge(port.edgeId!)!);
+
+        const matching = outputs.filter(port =>
+            port.filters.includes(item) ||
+            port.filters.includes('ANY') ||
+            (port.filters.includes('ANY_UNDEFINED') && !named.has(item)));
+        const overflow = outputs.filter(port => port.filters.includes('OVERFLOW'));
+
+        if (this.passOn(splitter.id, connected(matching), item)) return true;
+        if (this.passOn(splitter.id, connected(overflow), item)) return true;
+
+        if (!this.blocked.has(splitter.id)) this.blocked.set(splitter.id, new Set());
+        this.blocked.get(splitter.id)!.add(item);
+        return false;
+    }
+
+    /**
+     * Put an item on the first belt with room whose target takes it, starting after the one served last
+     */
+    private passOn(nodeId: string, outputs: GraphEdge[], item: string): boolean {
+        const start = this.nextOutput.get(nodeId) || 0;
+        for (let i = 0; i < outputs.length; i++) {
+            const index = (start + i) % outputs.length;
+            const takes = this.takes.get(outputs[index].id);
+            if (takes && !takes.has(item)) continue;
+
+            const belt = this.getBelt(outputs[index].id);
+            if (!this.hasRoom(belt)) continue;
+
+            this.enter(belt, item);
+            this.nextOutput.set(nodeId, start + i + 1);
+            return true;
+        }
+        return false;
+    }
+
+    // ===== HELPERS =====
+
+    private enter(belt: BeltState, item: string): void {
+        belt.items.push({ item, position: 0 });
+    }
+
+    /**
+     * The last item has moved far enough from the start for another one
+     */
+    private hasRoom(belt: BeltState): boolean {
+        const last = belt.items[belt.items.length - 1];
+        return !last || last.position >= 1 / DiscreteFlowSystem.ITEMS_PER_TILE - DiscreteFlowSystem.EPSILON;
+    }
+
+    /**
+     * One slot per item: a stack (50 m³ for fluids), or a whole cycle's worth if that is more
+     * @param perCycle - Items used or made per craft cycle
+     */
+    private bufferCapacity(item: string, perCycle: number): number {
+        const slot = this.data.getTransportType(item) === 'pipe'
+            ? DiscreteFlowSystem.FLUID_SLOT
+            : this.data.getStackSize(item);
+        return perCycle < Infinity ? Math.max(slot, perCycle) : slot;
+    }
+
+    private isContinuous(recipe: RecipeDef): boolean {
+        return recipe.inputs.length === 0 || recipe.outputs.length === 0 || recipe.craftTime <= 0;
+    }
+
+    private getAmplification(node: GraphNode): number {
+        return getAmplification(node.somersloops, this.data.getSomersloopSlots(node.machine!));
+    }
+
+    private getMachine(node: GraphNode): MachineState {
+        let state = this.machines.get(node.id);
+        if (!state || state.recipe !== node.recipe) {
+            state = {
+                recipe: node.recipe,
+                inputs: new Map(),
+                outputs: new Map(),
+                crafting: false,
+                progress: 0,
+                busy: state?.busy ?? 0
+            };
+            this.machines.set(node.id, state);
+        }
+        return state;
+    }
+
+    private getBelt(edgeId: string): BeltState {
+        let belt = this.belts.get(edgeId);
+        if (!belt) {
+            belt = { items: [], jammed: false, delivered: new Map() };
+            this.belts.set(edgeId, belt);
+        }
+        return belt;
+    }
+
+    /**
+     * Tier cap of a belt (items per minute) or pipe (m³ per minute)
+     */
+    private capacityOf(edge: GraphEdge): number {
+        return edge.transport === 'pipe' ? getPipeCapacity(edge.tier) : getBeltCapacity(edge.tier);
+    }
+
+    /**
+     * Forget machines and belts that left the graph
+     */
+    private prune(graph: GraphManager): void {
+        Array.from(this.machines.keys()).forEach(nodeId => {
+            if (!graph.getNode(nodeId)) this.machines.delete(nodeId);
+        });
+        Array.from(this.belts.keys()).forEach(edgeId => {
+            if (!graph.getEdge(edgeId)) this.belts.delete(edgeId);
+        });
+    }
+
+    private emptyResult(): FlowResult {
+        return {
+            clusters: [],
+            factoryEfficiency: new Map(),
+            beltFlows: new Map(),
+            sideRates: new Map(),
+            splitterFlows: new Map()
+        };
+    }
+}
@@ -0,0 +1,743 @@
+import { DataManager } from "../managers/DataManager";
+import { GraphManager, GraphNode, GraphEdge, GraphPort, ConnectionSide } from "../managers/GraphManager";
+import { getInputRates, itemsPerMinute } from "../utils/RecipeMath";
+import { getClockMultiplier } from "../utils/ClockSpeed";
+import { getAmplification } from "../utils/Somersloops";
+import { getBeltCapacity } from "../utils/BeltTiers";
+import { getPipeCapacity } from "../utils/PipeTiers";
+import { StorageLevel } from "../utils/Storage";
+
+/**
+ * Items carried by a single belt (items per minute) or pipe (m³ per minute)
+ */
+export interface BeltFlow {
+    item: string | null;          // Dominant item on the belt
+    rate: number;                 // Total items per minute
+    items: Map<string, number>;   // Per-item breakdown
+    capacity: number;             // Tier cap (items or m³ per minute)
+    saturated: boolean;           // Running at the tier cap (bottleneck)
+}
+
+/**
+ * A group of nodes connected to each other through belts
+ */
+export interface FlowCluster {
+    id: number;
+    nodeIds: string[];
+    edgeIds: string[];
+    supply: Map<string, number>;  // Items per minute reaching consumers
+    demand: Map<string, number>;  // Items per minute requested by consumers at full efficiency
+    efficiency: number;           // Lowest supply/demand ratio in the cluster
+}
+
+/**
+ * What reaches a splitter and what holds it up
+ */
+export interface SplitterFlow {
+    arriving: Map<string, number>; // Items per minute offered at the input
+    blocked: string[];             // Items whose outputs are all full or missing (they set the pace of the input)
+}
+
+/**
+ * Solver output, keyed by graph node and edge IDs
+ */
+export interface FlowResult {
+    clusters: FlowCluster[];
+    factoryEfficiency: Map<string, number>;
+    beltFlows: Map<string, BeltFlow>;
+    sideRates: Map<string, Map<ConnectionSide, number>>; // Junctions and splitters: items per minute through each connected side
+    splitterFlows: Map<string, SplitterFlow>;
+}
+
+/**
+ * Steady-state flow solver ("Magic Belt" model).
+ * Groups connected nodes into clusters, compares total supply against total demand
+ * for every item in a cluster and slows consumers down uniformly when supply is short.
+ * Belt and pipe rates are clamped to their tier capacity, so only what fits through reaches consumers.
+ * Junctions split evenly and merge fairly; anything a consumer cannot take backs up
+ * and is redistributed over the other outputs of the junction feeding it. Consumers only
+ * take their own ingredient: junctions route each item to the outputs leading to a consumer
+ * of it, and an item nobody downstream takes backs up and holds up its belt.
+ * Splitters route every item of a mixed belt by the filters on their outputs.
+ * Factories run at their clock speed; somersloops amplify what they produce.
+ * Factories without power (see PowerSystem) are stopped and ask for and take nothing.
+ * Sinks take anything that reaches them, up to what their belts carry;
+ * unlimited spawns put out whatever their belt can carry.
+ * Storages pass items through, take in what their output cannot take until they are full
+ * and hand out their stock when their input runs short (fill levels come from the StorageSystem).
+ * Works purely on the GraphManager topology (no Phaser dependency).
+ */
+export class FlowSystem {
+    // Flow calculation tick (1 Hz)
+    public static readonly TICK_INTERVAL = 1000;
+
+    private static readonly MAX_ITERATIONS = 100;
+    private static readonly EPSILON = 1e-6;
+
+    constructor(private data: DataManager = DataManager.getInstance()) {}
+
+    /**
+     * Solve the whole network held by the graph
+     * @param stopped - Factories that cannot run whatever their supply (e.g. on a tripped power grid)
+     * @param levels - What each storage holds (storages missing here are empty)
+     */
+    public solve(
+        graph: GraphManager,
+        stopped: ReadonlySet<string> = new Set(),
+        levels: ReadonlyMap<string, StorageLevel> = new Map()
+    ): FlowResult {
+        const result: FlowResult = {
+            clusters: [],
+            factoryEfficiency: new Map(),
+            beltFlows: new Map(),
+            sideRates: new Map(),
+            splitterFlows: new Map()
+        };
+
+        this.buildClusters(graph).forEach((cluster, index) => {
+            cluster.id = index;
+            this.solveCluster(graph, cluster, result, stopped, levels);
+            result.clusters.push(cluster);
+        });
+
+        return result;
+    }
+
+    /**
+     * Group nodes and edges into connected clusters (union-find over edges)
+     */
+    private buildClusters(graph: GraphManager): FlowCluster[] {
+        const parent = new Map<string, string>();
+
+        const find = (nodeId: string): string => {
+            let root = nodeId;
+            while (parent.get(root) !== root) {
+                root = parent.get(root)!;
+            }
+            parent.set(nodeId, root);
+            return root;
+        };
+
+        const nodes = graph.getNodes();
+        const edges = graph.getEdges();
+
+        nodes.forEach(node => parent.set(node.id, node.id));
+        edges.forEach(edge => {
+            const rootA = find(this.sourceOf(graph, edge).id);
+            const rootB = find(this.targetOf(graph, edge).id);
+            if (rootA !== rootB) {
+                parent.set(rootA, rootB);
+            }
+        });
+
+        const clusters = new Map<string, FlowCluster>();
+        const getCluster = (nodeId: string): FlowCluster => {
+            const root = find(nodeId);
+            let cluster = clusters.get(root);
+            if (!cluster) {
+                cluster = {
+                    id: 0,
+                    nodeIds: [],
+                    edgeIds: [],
+                    supply: new Map(),
+                    demand: new Map(),
+                    efficiency: 1
+                };
+                clusters.set(root, cluster);
+            }
+            return cluster;
+        };
+
+        nodes.forEach(node => getCluster(node.id).nodeIds.push(node.id));
+        edges.forEach(edge => getCluster(this.sourceOf(graph, edge).id).edgeIds.push(edge.id));
+
+        return Array.from(clusters.values());
+    }
+
+    /**
+     * Iterate factory efficiencies until supply and demand settle
+     */
+    private solveCluster(
+        graph: GraphManager,
+        cluster: FlowCluster,
+        result: FlowResult,
+        stopped: ReadonlySet<string>,
+        levels: ReadonlyMap<string, StorageLevel>
+    ): void {
+        const factories = cluster.nodeIds
+            .map(nodeId => graph.getNode(nodeId)!)
+            .filter(node => node.kind === 'FACTORY');
+
+        // Factories that cannot run ask for nothing and take nothing off their belts
+        const running = new Set(factories
+            .filter(factory => !stopped.has(factory.id) && this.canRun(graph, factory))
+            .map(factory => factory.id));
+
+        const efficiency = new Map<string, number>();
+        factories.forEach(factory => {
+            efficiency.set(factory.id, running.has(factory.id) ? 1 : 0);
+        });
+
+        // Demand does not depend on efficiency: consumers always ask for their full clock speed
+        cluster.demand = new Map();
+        factories.forEach(factory => {
+            if (!factory.recipe || !running.has(factory.id)) return;
+            getInputRates(factory.recipe, factory.clockSpeed).forEach(({ item, rate }) => {
+                cluster.demand.set(item, (cluster.demand.get(item) || 0) + rate);
+            });
+        });
+
+        let flows = new Map<string, Map<string, number>>();
+        const splitters = new Map<string, SplitterFlow>();
+
+        for (let i = 0; i < FlowSystem.MAX_ITERATIONS; i++) {
+            flows = this.propagate(graph, cluster, efficiency, running, splitters, levels);
+            cluster.supply = this.measureSupply(graph, cluster, flows, running);
+
+            // Uniform ratio per item across the cluster
+            const ratios = new Map<string, number>();
+            cluster.demand.forEach((demand, item) => {
+                const supply = cluster.supply.get(item) || 0;
+                ratios.set(item, demand > 0 ? Math.min(1, supply / demand) : 1);
+            });
+
+            let changed = false;
+            factories.forEach(factory => {
+                if (!factory.recipe || !running.has(factory.id)) return;
+
+                let next = 1;
+                factory.recipe.inputs.forEach(input => {
+                    next = Math.min(next, ratios.get(input.item) ?? 1);
+                });
+
+                if (Math.abs(next - efficiency.get(factory.id)!) > FlowSystem.EPSILON) {
+                    changed = true;
+                }
+                efficiency.set(factory.id, next);
+            });
+
+            cluster.efficiency = Math.min(1, ...Array.from(ratios.values()));
+
+            if (!changed) break;
+        }
+
+        efficiency.forEach((value, nodeId) => result.factoryEfficiency.set(nodeId, value));
+        splitters.forEach((flow, nodeId) => result.splitterFlows.set(nodeId, flow));
+        flows.forEach((items, edgeId) => {
+            const edge = graph.getEdge(edgeId)!;
+            result.beltFlows.set(edgeId, this.summarize(items, this.capacityOf(edge)));
+
+            [edge.from, edge.to].forEach(portId => {
+                const port = graph.getPort(portId)!;
+                const kind = graph.getNode(port.nodeId)!.kind;
+                if ((kind !== 'JUNCTION' && kind !== 'SPLITTER') || !port.side) return;
+
+                if (!result.sideRates.has(port.nodeId)) result.sideRates.set(port.nodeId, new Map());
+                result.sideRates.get(port.nodeId)!.set(port.side, this.total(items));
+            });
+        });
+    }
+
+    /**
+     * A factory can only run with a recipe and every recipe input connected
+     * (sinks need neither)
+     */
+    private canRun(graph: GraphManager, factory: GraphNode): boolean {
+        if (this.data.isSink(factory.machine!)) return true;
+        if (!factory.recipe) return false;
+
+        const inputs = graph.getPorts(factory.id, 'INPUT');
+        return factory.recipe.inputs.every((_, index) => {
+            const port = inputs[index];
+            return port !== undefined && port.edgeId !== null;
+        });
+    }
+
+    /**
+     * Push factory outputs downstream through junctions and belt endpoints.
+     *
+     * Each belt tracks what its source offers and what its target accepts; the belt
+     * carries the smaller of the two. Running factories accept their recipe rate per input,
+     * factories that cannot run accept nothing, pass-through nodes accept what their outputs can take. A pass-through node
+     * merges its inputs with a fair interleave (every input gets an equal share of
+     * the throughput, unused shares go to the busier inputs) and splits evenly over
+     * its outputs, handing the share of a backed-up output to the others.
+     * Splitters are routed per item instead (see routeSplitter) and report into `splitters`,
+     * storages buffer what passes through them (see routeStorage).
+     */
+    private propagate(
+        graph: GraphManager,
+        cluster: FlowCluster,
+        efficiency: Map<string, number>,
+        running: ReadonlySet<string>,
+        splitters: Map<string, SplitterFlow>,
+        levels: ReadonlyMap<string, StorageLevel>
+    ): Map<string, Map<string, number>> {
+        const edges = cluster.edgeIds.map(edgeId => graph.getEdge(edgeId)!);
+        const incoming = new Map<string, GraphEdge[]>();
+        const outgoing = new Map<string, GraphEdge[]>();
+
+        edges.forEach(edge => {
+            const from = this.sourceOf(graph, edge).id;
+            const to = this.targetOf(graph, edge).id;
+            if (!outgoing.has(from)) outgoing.set(from, []);
+            if (!incoming.has(to)) incoming.set(to, []);
+            outgoing.get(from)!.push(edge);
+            incoming.get(to)!.push(edge);
+        });
+
+        const offered = new Map<string, Map<string, number>>();
+        const accepted = new Map<string, number>();
+
+        // Items each belt's target takes: a factory input its ingredient, a pass-through
+        // node whatever its outputs lead to (null: any item)
+        const takes = new Map<string, ReadonlySet<string> | null>();
+        edges.forEach(edge => {
+            const items = graph.getItemsAcceptedAt(edge.to);
+            takes.set(edge.id, items ? new Set(items) : null);
+        });
+        const taken = (edge: GraphEdge, item: string) => this.takesItem(takes, edge.id, item);
+
+        edges.forEach(edge => {
+            const capacity = this.capacityOf(edge);
+            const source = this.sourceOf(graph, edge);
+            const target = this.targetOf(graph, edge);
+
+            offered.set(edge.id, this.isPassThrough(source)
+                ? new Map()
+                : this.clampToCapacity(this.factoryOutput(graph, source, edge.from, efficiency.get(source.id) || 0), capacity));
+            accepted.set(edge.id, this.isPassThrough(target)
+                ? capacity
+                : Math.min(capacity, this.factoryIntake(graph, target, edge.to, running.has(target.id))));
+        });
+
+        const passThrough = cluster.nodeIds
+            .map(nodeId => graph.getNode(nodeId)!)
+            .filter(node => this.isPassThrough(node));
+
+        // Relax until stable (loops through junctions converge geometrically)
+        for (let pass = 0; pass < FlowSystem.MAX_ITERATIONS; pass++) {
+            let changed = false;
+
+            passThrough.forEach(node => {
+                const inEdges = incoming.get(node.id) || [];
+                const outEdges = outgoing.get(node.id) || [];
+
+                if (node.kind === 'SPLITTER') {
+                    if (this.routeSplitter(graph, node, inEdges, offered, accepted, takes, splitters)) changed = true;
+                    return;
+                }
+                if (node.kind === 'FACTORY') {
+                    if (this.routeStorage(node, inEdges, outEdges, offered, accepted, levels.get(node.id))) changed = true;
+                    return;
+                }
+
+                // A dead end (e.g. a loose belt end) takes everything
+                const offers = inEdges.map(edge => this.total(offered.get(edge.id)!));
+                const room = outEdges.length > 0
+                    ? outEdges.reduce((sum, edge) => sum + accepted.get(edge.id)!, 0)
+                    : Infinity;
+                const throughput = Math.min(offers.reduce((sum, rate) => sum + rate, 0), room);
+
+                // Merge: fair share of the throughput per input
+                const shares = this.fairShare(throughput, offers);
+                const items = new Map<string, number>();
+                inEdges.forEach((edge, index) => {
+                    const scale = offers[index] > 0 ? shares[index] / offers[index] : 0;
+                    offered.get(edge.id)!.forEach((rate, item) => {
+                        items.set(item, (items.get(item) || 0) + rate * scale);
+                    });
+                });
+
+                // Split: even share of every item per output that takes it, limited by what
+                // each output accepts. An item no output takes backs up and holds up the belt.
+                const left = new Map(items);
+                const sent = outEdges.map(() => new Map<string, number>());
+                this.placeItems(left, outEdges.map(edge => accepted.get(edge.id)!), sent,
+                    (index, item) => taken(outEdges[index], item));
+                const speed = outEdges.length > 0 ? this.beltSpeed(items, left) : 1;
+
+                inEdges.forEach((edge, index) => {
+                    const next = outEdges.length > 0 ? shares[index] * speed : this.capacityOf(edge);
+                    if (Math.abs(accepted.get(edge.id)! - next) > FlowSystem.EPSILON) changed = true;
+                    accepted.set(edge.id, next);
+                });
+
+                outEdges.forEach((edge, index) => {
+                    const next = this.pace(sent[index], items, left, speed);
+                    if (!this.sameFlow(offered.get(edge.id)!, next)) changed = true;
+                    offered.set(edge.id, next);
+                });
+            });
+
+            if (!changed) break;
+        }
+
+        // Each belt carries what its source offers, up to what its target accepts;
+        // items the target does not take stay where they are
+        const flows = new Map<string, Map<string, number>>();
+        edges.forEach(edge => {
+            const items = new Map(Array.from(offered.get(edge.id)!).filter(([item]) => taken(edge, item)));
+            flows.set(edge.id, this.clampToCapacity(items, accepted.get(edge.id)!));
+        });
+
+        return flows;
+    }
+
+    /**
+     * Route the items arriving at a splitter. Each item is split evenly over the outputs
+     * whose filters match it (its own name, ANY, or ANY_UNDEFINED if no output names it)
+     * and whose belts lead somewhere that takes it; what those cannot take goes to the
+     * OVERFLOW outputs. A mixed belt moves as a whole,
+     * so the input only runs as fast as the item with the least room allows: an item
+     * that fits nowhere stalls the splitter. Returns true if any belt changed.
+     */
+    private routeSplitter(
+        graph: GraphManager,
+        node: GraphNode,
+        inEdges: GraphEdge[],
+        offered: Map<string, Map<string, number>>,
+        accepted: Map<string, number>,
+        takes: ReadonlyMap<string, ReadonlySet<string> | null>,
+        splitters: Map<string, SplitterFlow>
+    ): boolean {
+        let changed = false;
+
+        const arriving = new Map<string, number>();
+        inEdges.forEach(edge => offered.get(edge.id)!.forEach((rate, item) => {
+            arriving.set(item, (arriving.get(item) || 0) + rate);
+        }));
+
+        // Unconnected outputs still claim their items but take nothing
+        const outputs = graph.getPorts(node.id, 'OUTPUT');
+        const room = outputs.map(port => port.edgeId !== null ? accepted.get(port.edgeId)! : 0);
+        const sent = outputs.map(() => new Map<string, number>());
+        const named = new Set(outputs.flatMap(port => port.filters));
+
+        const left = new Map(arriving);
+        const leadsOn = (port: GraphPort, item: string) =>
+            port.edgeId === null || this.takesItem(takes, port.edgeId, item);
+        const matches = (port: GraphPort, item: string) => leadsOn(port, item) && (
+            port.filters.includes(item) ||
+            port.filters.includes('ANY') ||
+            (port.filters.includes('ANY_UNDEFINED') && !named.has(item)));
+        const overflows = (port: GraphPort, item: string) => leadsOn(port, item) && port.filters.includes('OVERFLOW');
+
+        this.placeItems(left, room, sent, (index, item) => matches(outputs[index], item));
+        this.placeItems(left, room, sent, (index, item) => overflows(outputs[index], item));
+
+        const speed = this.beltSpeed(arriving, left);
+
+        const blocked = Array.from(arriving.keys()).filter(item => outputs.every((port, index) =>
+            room[index] <= FlowSystem.EPSILON || !(matches(port, item) || overflows(port, item))));
+        splitters.set(node.id, { arriving, blocked });
+
+        inEdges.forEach(edge => {
+            const next = this.total(offered.get(edge.id)!) * speed;
+            if (Math.abs(accepted.get(edge.id)! - next) > FlowSystem.EPSILON) changed = true;
+            accepted.set(edge.id, next);
+        });
+
+        outputs.forEach((port, index) => {
+            if (port.edgeId === null) return;
+
+            const next = this.pace(sent[index], arriving, left, speed);
+            if (!this.sameFlow(offered.get(port.edgeId)!, next)) changed = true;
+            offered.set(port.edgeId, next);
+        });
+
+        return changed;
+    }
+
+    /**
+     * Split items over outputs with limited room, in rounds: each item is shared evenly among
+     * the outputs that take it and still have room. Every round either places all remaining
+     * items or fills up at least one output. Moves what is placed from `left` to `sent`.
+     * @param room - What each output can still take (used up as items are placed)
+     */
+    private placeItems(
+        left: Map<string, number>,
+        room: number[],
+        sent: Map<string, number>[],
+        accepts: (index: number, item: string) => boolean
+    ): void {
+        for (let round = 0; round <= room.length; round++) {
+            const wants = room.map(() => new Map<string, number>());
+            left.forEach((rate, item) => {
+                if (rate <= FlowSystem.EPSILON) return;
+                const open = room
+                    .map((_, index) => index)
+                    .filter(index => room[index] > FlowSystem.EPSILON && accepts(index, item));
+                open.forEach(index => wants[index].set(item, rate / open.length));
+            });
+
+            let placed = false;
+            wants.forEach((want, index) => {
+                const total = this.total(want);
+                if (total <= 0) return;
+
+                const scale = Math.min(1, room[index] / total);
+                want.forEach((rate, item) => {
+                    sent[index].set(item, (sent[index].get(item) || 0) + rate * scale);
+                    left.set(item, left.get(item)! - rate * scale);
+                });
+                room[index] -= total * scale;
+                placed = true;
+            });
+
+            if (!placed) break;
+        }
+    }
+
+    /**
+     * A mixed belt moves as a whole: it slows down to the item with the smallest placed share
+     */
+    private beltSpeed(arriving: Map<string, number>, left: Map<string, number>): number {
+        let speed = 1;
+        arriving.forEach((rate, item) => {
+            if (rate > FlowSystem.EPSILON) speed = Math.min(speed, Math.max(0, 1 - left.get(item)! / rate));
+        });
+        return speed;
+    }
+
+    /**
+     * What an output carries once the input runs at the given speed
+     * (each item's placed share scaled to the speed)
+     */
+    private pace(
+        sent: Map<string, number>,
+        arriving: Map<string, number>,
+        left: Map<string, number>,
+        speed: number
+    ): Map<string, number> {
+        const next = new Map<string, number>();
+        sent.forEach((rate, item) => {
+            const routed = arriving.get(item)! - left.get(item)!;
+            next.set(item, routed > 0 ? rate * speed * arriving.get(item)! / routed : 0);
+        });
+        return next;
+    }
+
+    private takesItem(takes: ReadonlyMap<string, ReadonlySet<string> | null>, edgeId: string, item: string): boolean {
+        const items = takes.get(edgeId);
+        return !items || items.has(item);
+    }
+
+    /**
+     * Route the items passing through a storage. Arrivals go straight on to the output;
+     * what the output cannot take is stored while there is room, so the input runs at
+     * full speed until the storage is full and then only as fast as the output.
+     * While stock is left the output tops up the arrivals with it (in proportion to
+     * what is stored). Returns true if any belt changed.
+     */
+    private routeStorage(
+        node: GraphNode,
+        inEdges: GraphEdge[],
+        outEdges: GraphEdge[],
+        offered: Map<string, Map<string, number>>,
+        accepted: Map<string, number>,
+        level: StorageLevel | undefined
+    ): boolean {
+        let changed = false;
+
+        const full = (level?.fill ?? 0) >= 1 - FlowSystem.EPSILON;
+        const stock = level ? this.total(level.items) : 0;
+        const room = outEdges.reduce((sum, edge) => sum + accepted.get(edge.id)!, 0);
+
+        // A full storage only takes in what leaves it
+        const takes = full
+            ? this.fairShare(room, inEdges.map(edge => this.total(offered.get(edge.id)!)))
+            : inEdges.map(edge => this.capacityOf(edge));
+
+        const arriving = new Map<string, number>();
+        inEdges.forEach((edge, index) => {
+            if (Math.abs(accepted.get(edge.id)! - takes[index]) > FlowSystem.EPSILON) changed = true;
+            accepted.set(edge.id, takes[index]);
+
+            this.clampToCapacity(offered.get(edge.id)!, takes[index]).forEach((rate, item) => {
+                arriving.set(item, (arriving.get(item) || 0) + rate);
+            });
+        });
+
+        // Arrivals first, then stock up to what the outputs take
+        const items = this.clampToCapacity(arriving, room);
+        const topUp = stock > FlowSystem.EPSILON ? Math.max(0, room - this.total(items)) : 0;
+        level?.items.forEach((count, item) => {
+            items.set(item, (items.get(item) || 0) + topUp * count / stock);
+        });
+
+        const total = this.total(items);
+        const gives = this.fairShare(total, outEdges.map(edge => accepted.get(edge.id)!));
+        outEdges.forEach((edge, index) => {
+            const scale = total > 0 ? gives[index] / total : 0;
+            const next = new Map<string, number>();
+            items.forEach((rate, item) => next.set(item, rate * scale));
+
+            if (!this.sameFlow(offered.get(edge.id)!, next)) changed = true;
+            offered.set(edge.id, next);
+        });
+
+        return changed;
+    }
+
+    /**
+     * Split a total over claimants with individual limits (max-min fairness):
+     * everyone gets an equal share, and what a claimant cannot use goes to the others
+     */
+    private fairShare(total: number, limits: number[]): number[] {
+        const shares = limits.map(() => 0);
+        const order = limits.map((_, index) => index).sort((a, b) => limits[a] - limits[b]);
+
+        let remaining = total;
+        order.forEach((index, position) => {
+            shares[index] = Math.min(limits[index], remaining / (order.length - position));
+            remaining -= shares[index];
+        });
+
+        return shares;
+    }
+
+    /**
+     * Items per minute a factory takes through one input port (its recipe rate at its clock speed;
+     * only the ingredient of that port, see propagate). A running sink takes everything;
+     * a factory that cannot run takes nothing.
+     */
+    private factoryIntake(graph: GraphManager, factory: GraphNode, portId: string, running: boolean): number {
+        if (!running) return 0;
+        if (this.data.isSink(factory.machine!)) return Infinity;
+
+        const port = graph.getPort(portId);
+        const input = port && factory.recipe?.inputs[port.index];
+        return input ? itemsPerMinute(input.quantity, factory.recipe!.craftTime) * getClockMultiplier(factory.clockSpeed) : 0;
+    }
+
+    /**
+     * Items leaving a factory through one of its output ports (amplified by its somersloops)
+     */
+    private factoryOutput(
+        graph: GraphManager,
+        factory: GraphNode,
+        portId: string,
+        efficiency: number
+    ): Map<string, number> {
+        const items = new Map<string, number>();
+        const port = graph.getPort(portId);
+        if (!factory.recipe || !port || port.type !== 'OUTPUT') return items;
+
+        const output = factory.recipe.outputs[port.index];
+        if (output) {
+            const amplification = getAmplification(factory.somersloops, this.data.getSomersloopSlots(factory.machine!));
+            const rate = itemsPerMinute(output.quantity, factory.recipe.craftTime) * getClockMultiplier(factory.clockSpeed) * amplification;
+            // A stopped unlimited spawn would give Infinity × 0
+            items.set(output.item, efficiency > 0 ? rate * efficiency : 0);
+        }
+
+        return items;
+    }
+
+    /**
+     * Sum the items arriving at input ports of running factories that expect them
+     * (stopped factories consume nothing, so nothing reaching them counts as supply)
+     */
+    private measureSupply(
+        graph: GraphManager,
+        cluster: FlowCluster,
+        flows: Map<string, Map<string, number>>,
+        running: ReadonlySet<string>
+    ): Map<string, number> {
+        const supply = new Map<string, number>();
+
+        cluster.edgeIds.forEach(edgeId => {
+            const edge = graph.getEdge(edgeId)!;
+            const factory = this.targetOf(graph, edge);
+            if (factory.kind !== 'FACTORY' || !running.has(factory.id)) return;
+
+            const input = factory.recipe?.inputs[graph.getPort(edge.to)!.index];
+            if (!input) return;
+
+            const rate = flows.get(edgeId)!.get(input.item) || 0;
+            supply.set(input.item, (supply.get(input.item) || 0) + rate);
+        });
+
+        return supply;
+    }
+
+    /**
+     * Scale all items on a belt down proportionally when the total exceeds the cap
+     */
+    private clampToCapacity(items: Map<string, number>, capacity: number): Map<string, number> {
+        const total = this.total(items);
+        if (total <= capacity) return items;
+
+        const clamped = new Map<string, number>();
+
+        // Unlimited items share the whole cap
+        if (total === Infinity) {
+            const unlimited = Array.from(items.values()).filter(rate => rate === Infinity).length;
+            items.forEach((rate, item) => clamped.set(item, rate === Infinity ? capacity / unlimited : 0));
+            return clamped;
+        }
+
+        const scale = capacity / total;
+        items.forEach((rate, item) => clamped.set(item, rate * scale));
+        return clamped;
+    }
+
+    private total(items: Map<string, number>): number {
+        let total = 0;
+        items.forEach(rate => total += rate);
+        return total;
+    }
+
+    /**
+     * Tier cap of a belt (items per minute) or pipe (m³ per minute)
+     */
+    private capacityOf(edge: GraphEdge): number {
+        return edge.transport === 'pipe' ? getPipeCapacity(edge.tier) : getBeltCapacity(edge.tier);
+    }
+
+    /**
+     * Junctions, splitters, belt endpoints and storages: nodes that route items instead of making them
+     */
+    private isPassThrough(node: GraphNode): boolean {
+        return node.kind !== 'FACTORY' || this.data.isStorage(node.machine!);
+    }
+
+    private sourceOf(graph: GraphManager, edge: GraphEdge): GraphNode {
+        return graph.getNodeOfPort(edge.from)!;
+    }
+
+    private targetOf(graph: GraphManager, edge: GraphEdge): GraphNode {
+        return graph.getNodeOfPort(edge.to)!;
+    }
+
+    private sameFlow(a: Map<string, number>, b: Map<string, number>): boolean {
+        if (a.size !== b.size) return false;
+        for (const [item, rate] of b) {
+            if (Math.abs((a.get(item) ?? -1) - rate) > FlowSystem.EPSILON) return false;
+        }
+        return true;
+    }
+
+    private summarize(items: Map<string, number>, capacity: number): BeltFlow {
+        let item: string | null = null;
+        let best = -1;
+        let rate = 0;
+
+        items.forEach((value, name) => {
+            rate += value;
+            if (value > best) {
+                best = value;
+                item = name;
+            }
+        });
+
+        return {
+            item,
+            rate,
+            items,
+            capacity,
+            saturated: rate >= capacity - FlowSystem.EPSILON
+        };
+    }
+}
@@ -0,0 +1,136 @@
+import { SinkSystem } from "./SinkSystem";
+
+/**
+ * Campaign level passed from the menu to the workbench
+ */
+export interface LevelData {
+    id: string;
+    targetItem: string;
+    targetRate: number;            // Items per minute
+    startingMoney?: number;
+    milestones?: Milestone[];      // Defaults to one milestone for the target
+    sustainSeconds?: number;       // How long the rates must hold (defaults to ObjectiveSystem.DEFAULT_SUSTAIN)
+}
+
+/**
+ * A rate of one item that has to reach the sinks
+ */
+export interface MilestoneRequirement {
+    item: string;
+    rate: number;                  // Items per minute
+}
+
+export interface Milestone {
+    id: string;
+    name: string;
+    requirements: MilestoneRequirement[];
+}
+
+export interface RequirementProgress extends MilestoneRequirement {
+    current: number;               // Items per minute measured by the sinks
+    met: boolean;
+}
+
+/**
+ * Where the campaign stands (for the HUD)
+ */
+export interface ObjectiveProgress {
+    milestone: Milestone | null;   // null once every milestone is complete
+    requirements: RequirementProgress[];
+    sustained: number;             // Seconds every requirement has held in a row
+    sustainSeconds: number;
+    completed: number;             // Milestones complete so far
+    total: number;
+}
+
+/**
+ * The milestones of a level: the given ones, or one for the level's target item and rate
+ */
+export function getLevelMilestones(level: LevelData): Milestone[] {
+    if (level.milestones && level.milestones.length > 0) return level.milestones;
+
+    return [{
+        id: level.id,
+        name: `Deliver ${level.targetRate} ${level.targetItem}/min`,
+        requirements: [{ item: level.targetItem, rate: level.targetRate }]
+    }];
+}
+
+/**
+ * The arbiter: checks the rates reaching the sinks against the current milestone.
+ * A milestone is complete once all of its rates have held for the sustain window;
+ * dropping below any of them restarts the window. Milestones are worked through in order.
+ * Works on the SinkSystem's measurements only (no Phaser dependency).
+ */
+export class ObjectiveSystem {
+    // Seconds the milestone rates must hold without a break
+    public static readonly DEFAULT_SUSTAIN = 60;
+
+    private current: number = 0;                 // Index of the milestone being worked on
+    private sustained: number = 0;
+
+    constructor(
+        private milestones: Milestone[],
+        public sustainSeconds: number = ObjectiveSystem.DEFAULT_SUSTAIN
+    ) {}
+
+    /**
+     * Advance the sustain timer by the time that passed since the last update
+     * @param seconds - Time covered by the sinks' latest measurement
+     * @returns The milestone completed by this update, if any
+     */
+    public update(sinks: SinkSystem, seconds: number): Milestone | null {
+        const milestone = this.getMilestone();
+        if (!milestone) return null;
+
+        if (!this.measure(milestone, sinks).every(requirement => requirement.met)) {
+            this.sustained = 0;
+            return null;
+        }
+
+        this.sustained += seconds;
+        if (this.sustained < this.sustainSeconds) return null;
+
+        this.current++;
+        this.sustained = 0;
+        return milestone;
+    }
+
+    /**
+     * The milestone being worked on (null once all are complete)
+     */
+    public getMilestone(): Milestone | null {
+        return this.milestones[this.current] ?? null;
+    }
+
+    public getProgress(sinks: SinkSystem): ObjectiveProgress {
+        const milestone = this.getMilestone();
+        return {
+            milestone,
+            requirements: milestone ? this.measure(milestone, sinks) : [],
+            sustained: this.sustained,
+            sustainSeconds: this.sustainSeconds,
+            completed: this.current,
+            total: this.milestones.length
+        };
+    }
+
+    public isComplete(): boolean {
+        return this.current >= this.milestones.length;
+    }
+
+    /**
+     * Restart the sustain window (e.g. after the layout was replaced); completed milestones stay complete
+     */
+    public resetSustain(): void {
+        this.sustained = 0;
+    }
+
+    private measure(milestone: Milestone, sinks: SinkSystem): RequirementProgress[] {
+        return milestone.requirements.map(requirement => {
+            const current = sinks.getItemRate(requirement.item);
+            // Allow for rounding in the measured rate
+            return { ...requirement, current, met: current >= requirement.rate - 1e-6 };
+        });
+    }
+}
@@ -0,0 +1,175 @@
+import { DataManager } from "../managers/DataManager";
+import { GraphManager, GraphNode } from "../managers/GraphManager";
+import { getClockMultiplier, getPowerUsage } from "../utils/ClockSpeed";
+import { getAmplificationPower } from "../utils/Somersloops";
+import { getGenerator } from "../utils/PowerGenerators";
+
+/**
+ * Factories and power poles joined by wires
+ */
+export interface PowerGrid {
+    id: number;
+    nodeIds: string[];
+    production: number;           // MW generated by the running generators
+    capacity: number;             // MW the generators give with full fuel supply
+    consumption: number;          // MW drawn by the running machines
+    demand: number;               // MW the machines draw running flat out
+    tripped: boolean;             // Fuse blown: every machine on the grid is stopped
+}
+
+/**
+ * Solver output (nodes without wires belong to no grid)
+ */
+export interface PowerResult {
+    grids: PowerGrid[];
+    gridOf: Map<string, number>;  // Node ID -> grid ID
+}
+
+/**
+ * Power grid simulation.
+ * Wires join factories and power poles into grids. Generators produce power in proportion
+ * to how well they are fuelled, every other machine draws its clock-adjusted power while it runs.
+ * A grid drawing more than it produces trips its fuse: all of its machines stop (see
+ * getStoppedNodes, fed into the FlowSystem) until the fuse is reset.
+ * Factories without any wire count as externally powered, so layouts without a grid keep running.
+ * Works purely on the GraphManager topology (no Phaser dependency).
+ */
+export class PowerSystem {
+    private static readonly EPSILON = 1e-6;
+
+    // Nodes on grids with a tripped fuse (kept between ticks)
+    private tripped: Set<string> = new Set();
+
+    constructor(private data: DataManager = DataManager.getInstance()) {}
+
+    /**
+     * Total up every grid and trip the fuses of overloaded ones
+     * @param efficiency - How fast each factory runs (FlowResult.factoryEfficiency)
+     */
+    public solve(graph: GraphManager, efficiency: Map<string, number>): PowerResult {
+        const result: PowerResult = { grids: [], gridOf: new Map() };
+        const tripped = new Set<string>();
+
+        this.buildGrids(graph).forEach((nodeIds, index) => {
+            const grid: PowerGrid = {
+                id: index,
+                nodeIds,
+                production: 0,
+                capacity: 0,
+                consumption: 0,
+                demand: 0,
+                tripped: nodeIds.some(nodeId => this.tripped.has(nodeId))
+            };
+
+            nodeIds.forEach(nodeId => {
+                const node = graph.getNode(nodeId)!;
+                const running = efficiency.get(nodeId) ?? 0;
+
+                if (this.isGenerator(node)) {
+                    const output = this.getPowerOutput(node);
+                    grid.capacity += output;
+                    grid.production += output * running;
+                } else {
+                    const draw = this.getPowerDraw(node);
+                    grid.demand += draw;
+                    grid.consumption += draw * running;
+                }
+            });
+
+            if (grid.consumption > grid.production + PowerSystem.EPSILON) {
+                grid.tripped = true;
+            }
+            if (grid.tripped) {
+                nodeIds.forEach(nodeId => tripped.add(nodeId));
+            }
+
+            result.grids.push(grid);
+            nodeIds.forEach(nodeId => result.gridOf.set(nodeId, grid.id));
+        });
+
+        // Removed or unwired nodes forget their tripped fuse
+        this.tripped = tripped;
+        return result;
+    }
+
+    /**
+     * Factories that must not run: everything on a grid with a tripped fuse
+     */
+    public getStoppedNodes(): ReadonlySet<string> {
+        return this.tripped;
+    }
+
+    public isTripped(nodeId: string): boolean {
+        return this.tripped.has(nodeId);
+    }
+
+    /**
+     * Reset the fuse of the grid a node is on. If the grid is still overloaded
+     * the fuse trips again on the next solve.
+     */
+    public resetFuse(graph: GraphManager, nodeId: string): void {
+        const grid = this.buildGrids(graph).find(nodeIds => nodeIds.includes(nodeId));
+        grid?.forEach(id => this.tripped.delete(id));
+    }
+
+    /**
+     * Whether a node generates power instead of drawing it
+     */
+    public isGenerator(node: GraphNode): boolean {
+        return node.kind === 'FACTORY' && this.data.isGenerator(node.machine!);
+    }
+
+    /**
+     * MW a generator produces at its clock speed with full fuel supply
+     */
+    public getPowerOutput(node: GraphNode): number {
+        const generator = node.machine ? getGenerator(node.machine) : undefined;
+        return generator ? generator.powerOutput * getClockMultiplier(node.clockSpeed) : 0;
+    }
+
+    /**
+     * MW a machine draws running at full speed (clock speed and somersloops included)
+     */
+    public getPowerDraw(node: GraphNode): number {
+        if (node.kind !== 'FACTORY' || this.isGenerator(node)) return 0;
+
+        const basePower = this.data.getMachine(node.machine!)?.basePower ?? 0;
+        const slots = this.data.getSomersloopSlots(node.machine!);
+        return getPowerUsage(basePower, node.clockSpeed) * getAmplificationPower(node.somersloops, slots);
+    }
+
+    /**
+     * Group wired nodes into grids (union-find over wires; unwired nodes are left out)
+     */
+    private buildGrids(graph: GraphManager): string[][] {
+        const parent = new Map<string, string>();
+
+        const find = (nodeId: string): string => {
+            if (!parent.has(nodeId)) parent.set(nodeId, nodeId);
+
+            let root = nodeId;
+            while (parent.get(root) !== root) {
+                root = parent.get(root)!;
+            }
+            parent.set(nodeId, root);
+            return root;
+        };
+
+        graph.getWires().forEach(wire => {
+            const rootA = find(wire.a);
+            const rootB = find(wire.b);
+            if (rootA !== rootB) {
+                parent.set(rootA, rootB);
+            }
+        });
+
+        const grids = new Map<string, string[]>();
+        Array.from(parent.keys()).forEach(nodeId => {
+            const root = find(nodeId);
+            if (!grids.has(root)) grids.set(root, []);
+            grids.get(root)!.push(nodeId);
+        });
+
+        return Array.from(grids.values());
+    }
+}
@@ -0,0 +1,289 @@
+import { DataManager, RecipeDef } from "../managers/DataManager";
+import { ItemRate, itemsPerMinute } from "../utils/RecipeMath";
+import { LinearConstraint, solveLinearProgram } from "../utils/Simplex";
+import { DEFAULT_CLOCK_SPEED, clampClockSpeed, getClockMultiplier, getPowerUsage } from "../utils/ClockSpeed";
+import { getAmplification, getAmplificationPower } from "../utils/Somersloops";
+import { PlanStep, ProductionPlan } from "./ProductionPlanner";
+
+export type OptimizerObjective = 'ORE' | 'POWER' | 'MACHINES' | 'FOOTPRINT';
+
+export interface OptimizerOptions {
+    objective?: OptimizerObjective;
+    resourceCaps?: Record<string, number>; // Raw item -> max items per minute
+    excludedRecipes?: string[];            // Recipe names that may not be used
+    clockSpeed?: number;                   // Percent for every machine (default 100)
+    amplified?: boolean;                   // Fill every somersloop slot (more output, same input)
+}
+
+/**
+ * A constraint that limits the optimum
+ */
+export interface BindingConstraint {
+    kind: 'RESOURCE_CAP' | 'TARGET';
+    item: string;
+    limit: number;               // Cap or target rate (items per minute)
+    shadowPrice: number;         // Objective change per extra unit of the limit (negative = improvement)
+}
+
+export interface OptimizationResult {
+    status: 'optimal' | 'infeasible' | 'unbounded';
+    objective: OptimizerObjective;
+    objectiveValue: number;
+    plan: ProductionPlan | null;
+    bindingConstraints: BindingConstraint[];
+}
+
+export const OBJECTIVE_LABELS: Record<OptimizerObjective, string> = {
+    ORE: 'Raw resources',
+    POWER: 'Power',
+    MACHINES: 'Machine count',
+    FOOTPRINT: 'Building footprint'
+};
+
+/**
+ * Chooses among all recipes (alternates included) with a linear program.
+ *
+ * Variables are the machine count of every recipe plus the supply of every raw resource.
+ * Each item must be produced at least as fast as it is consumed (plus the target rate),
+ * so byproducts may pile up and are reported as surplus. Raw supply is limited by the caps.
+ */
+export class ProductionOptimizer {
+    private static readonly EPSILON = 1e-6;
+
+    // Tiny cost per machine so zero-cost loops (e.g. package/unpackage) are never built
+    private static readonly MACHINE_TIEBREAK = 1e-6;
+
+    constructor(private data: DataManager = DataManager.getInstance()) {}
+
+    public optimize(item: string, rate: number, options: OptimizerOptions = {}): OptimizationResult {
+        const objective = options.objective ?? 'ORE';
+        const caps = options.resourceCaps ?? {};
+        const excluded = new Set(options.excludedRecipes ?? []);
+        const clockSpeed = clampClockSpeed(options.clockSpeed ?? DEFAULT_CLOCK_SPEED);
+        const multiplier = getClockMultiplier(clockSpeed);
+        const amplified = options.amplified ?? false;
+
+        const recipes = this.relevantRecipes(item, excluded);
+        const raws = this.data.rawResources;
+
+        // Item rows
+        const items = new Set<string>([item, ...raws]);
+        recipes.forEach(recipe => {
+            recipe.inputs.forEach(input => items.add(input.item));
+            recipe.outputs.forEach(output => items.add(output.item));
+        });
+        const itemList = Array.from(items);
+        const itemRow = new Map(itemList.map((name, index) => [name, index]));
+
+        // Columns: recipes first, then raw supplies
+        const rawColumn = new Map(raws.map((name, index) => [name, recipes.length + index]));
+        const variableCount = recipes.length + raws.length;
+
+        const constraints: LinearConstraint[] = itemList.map(name => ({
+            coefficients: new Map<number, number>(),
+            sense: '>=',
+            rhs: name === item ? rate : 0
+        }));
+
+        recipes.forEach((recipe, column) => {
+            const add = (name: string, value: number) => {
+                const coefficients = constraints[itemRow.get(name)!].coefficients;
+                coefficients.set(column, (coefficients.get(column) || 0) + value);
+            };
+            const amplification = this.amplification(recipe, amplified);
+            recipe.outputs.forEach(output => add(output.item, itemsPerMinute(output.quantity, recipe.craftTime) * multiplier * amplification));
+            recipe.inputs.forEach(input => add(input.item, -itemsPerMinute(input.quantity, recipe.craftTime) * multiplier));
+        });
+
+        raws.forEach(name => {
+            constraints[itemRow.get(name)!].coefficients.set(rawColumn.get(name)!, 1);
+        });
+
+        // Resource caps
+        const capRows = new Map<string, number>();
+        Object.entries(caps).forEach(([name, cap]) => {
+            const column = rawColumn.get(name);
+            if (column === undefined || !(cap >= 0)) return;
+
+            capRows.set(name, constraints.length);
+            constraints.push({ coefficients: new Map([[column, 1]]), sense: '<=', rhs: cap });
+        });
+
+        // Objective
+        const costs = new Array(variableCount).fill(0);
+        recipes.forEach((recipe, column) => {
+            costs[column] = this.recipeCost(recipe, objective, clockSpeed, amplified) + ProductionOptimizer.MACHINE_TIEBREAK;
+        });
+        if (objective === 'ORE') {
+            raws.forEach(name => costs[rawColumn.get(name)!] = 1);
+        }
+
+        const result = solveLinearProgram({ variableCount, objective: costs, constraints });
+
+        if (result.status !== 'optimal') {
+            return { status: result.status, objective, objectiveValue: 0, plan: null, bindingConstraints: [] };
+        }
+
+        // Binding constraints: caps that are used up and the target itself
+        const bindingConstraints: BindingConstraint[] = [];
+        capRows.forEach((row, name) => {
+            const used = result.values[rawColumn.get(name)!];
+            if (used >= caps[name] - ProductionOptimizer.EPSILON) {
+                bindingConstraints.push({
+                    kind: 'RESOURCE_CAP',
+                    item: name,
+                    limit: caps[name],
+                    shadowPrice: result.duals[row]
+                });
+            }
+        });
+        bindingConstraints.push({
+            kind: 'TARGET',
+            item,
+            limit: rate,
+            shadowPrice: result.duals[itemRow.get(item)!]
+        });
+
+        const plan = this.buildPlan(item, rate, clockSpeed, amplified, recipes, result.values, raws, rawColumn);
+
+        return {
+            status: 'optimal',
+            objective,
+            objectiveValue: this.objectiveValue(plan, objective),
+            plan,
+            bindingConstraints
+        };
+    }
+
+    /**
+     * Recipes that can contribute to the target: everything producing it or,
+     * recursively, one of the ingredients of such a recipe (raw resources included,
+     * since converter recipes can turn one resource into another)
+     */
+    private relevantRecipes(item: string, excluded: Set<string>): RecipeDef[] {
+        const needed = new Set<string>([item]);
+        const selected = new Set<RecipeDef>();
+        const queue = [item];
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            this.data.getRecipesProducing(current).forEach(recipe => {
+                if (excluded.has(recipe.name) || selected.has(recipe)) return;
+                selected.add(recipe);
+
+                recipe.inputs.forEach(input => {
+                    if (needed.has(input.item)) return;
+                    needed.add(input.item);
+                    queue.push(input.item);
+                });
+            });
+        }
+
+        return this.data.recipes.filter(recipe => selected.has(recipe));
+    }
+
+    /**
+     * Output multiplier of a recipe's machines (all somersloop slots filled when amplified)
+     */
+    private amplification(recipe: RecipeDef, amplified: boolean): number {
+        const slots = this.data.getSomersloopSlots(recipe.machine);
+        return getAmplification(amplified ? slots : 0, slots);
+    }
+
+    /**
+     * Cost of running one machine of a recipe at a clock speed
+     */
+    private recipeCost(recipe: RecipeDef, objective: OptimizerObjective, clockSpeed: number, amplified: boolean): number {
+        switch (objective) {
+            case 'POWER': {
+                const slots = this.data.getSomersloopSlots(recipe.machine);
+                const basePower = this.data.getMachine(recipe.machine)?.basePower ?? 0;
+                return getPowerUsage(basePower, clockSpeed) * getAmplificationPower(amplified ? slots : 0, slots);
+            }
+            case 'MACHINES':
+                return 1;
+            case 'FOOTPRINT': {
+                const size = this.data.getMachineSize(recipe.machine);
+                return size.w * size.h;
+            }
+            default:
+                return 0;
+        }
+    }
+
+    private objectiveValue(plan: ProductionPlan, objective: OptimizerObjective): number {
+        switch (objective) {
+            case 'ORE':
+                return plan.rawResources.reduce((sum, resource) => sum + resource.rate, 0);
+            case 'POWER':
+                return plan.steps.reduce((sum, step) => sum + step.machines * this.recipeCost(step.recipe, 'POWER', plan.clockSpeed, plan.amplified), 0);
+            case 'MACHINES':
+                return plan.steps.reduce((sum, step) => sum + step.machines, 0);
+            case 'FOOTPRINT':
+                return plan.steps.reduce((sum, step) => sum + step.machines * this.recipeCost(step.recipe, 'FOOTPRINT', plan.clockSpeed, plan.amplified), 0);
+        }
+    }
+
+    /**
+     * Turn the LP solution into the planner's plan format
+     */
+    private buildPlan(
+        item: string,
+        rate: number,
+        clockSpeed: number,
+        amplified: boolean,
+        recipes: RecipeDef[],
+        values: number[],
+        raws: string[],
+        rawColumn: Map<string, number>
+    ): ProductionPlan {
+        const net = new Map<string, number>();
+        const add = (name: string, value: number) => net.set(name, (net.get(name) || 0) + value);
+
+        const steps: PlanStep[] = [];
+        recipes.forEach((recipe, column) => {
+            const machines = values[column];
+            if (machines <= ProductionOptimizer.EPSILON) return;
+
+            const scale = (quantity: number) => itemsPerMinute(quantity, recipe.craftTime) * getClockMultiplier(clockSpeed) * machines;
+            const amplification = this.amplification(recipe, amplified);
+            const inputs = recipe.inputs.map(input => ({ item: input.item, rate: scale(input.quantity) }));
+            const outputs = recipe.outputs.map(output => ({ item: output.item, rate: scale(output.quantity) * amplification }));
+
+            inputs.forEach(input => add(input.item, -input.rate));
+            outputs.forEach(output => add(output.item, output.rate));
+
+            steps.push({
+                recipe,
+                item: recipe.outputs[0].item,
+                machines,
+                inputs,
+                outputs,
+                power: this.recipeCost(recipe, 'POWER', clockSpeed, amplified) * Math.ceil(machines - 1e-9)
+            });
+        });
+
+        // Target recipes first, then alphabetical
+        steps.sort((a, b) => Number(b.item === item) - Number(a.item === item) || a.recipe.name.localeCompare(b.recipe.name));
+
+        const rawResources: ItemRate[] = raws
+            .map(name => ({ item: name, rate: values[rawColumn.get(name)!] }))
+            .filter(resource => resource.rate > ProductionOptimizer.EPSILON);
+        rawResources.forEach(resource => add(resource.item, resource.rate));
+        add(item, -rate);
+
+        const byproducts: ItemRate[] = Array.from(net, ([name, value]) => ({ item: name, rate: value }))
+            .filter(surplus => surplus.rate > ProductionOptimizer.EPSILON);
+
+        return {
+            target: { item, rate },
+            clockSpeed,
+            amplified,
+            steps,
+            rawResources,
+            byproducts,
+            totalMachines: steps.reduce((sum, step) => sum + Math.ceil(step.machines - 1e-9), 0),
+            totalPower: steps.reduce((sum, step) => sum + step.power, 0)
+        };
+    }
+}
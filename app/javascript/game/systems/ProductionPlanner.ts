@@ -0,0 +1,189 @@
+import { DataManager, RecipeDef } from "../managers/DataManager";
+import { ItemRate, itemsPerMinute } from "../utils/RecipeMath";
+import { DEFAULT_CLOCK_SPEED, clampClockSpeed, getClockMultiplier, getPowerUsage } from "../utils/ClockSpeed";
+import { getAmplification, getAmplificationPower } from "../utils/Somersloops";
+
+/**
+ * One recipe of the chain and how many machines run it
+ */
+export interface PlanStep {
+    recipe: RecipeDef;
+    item: string;                // Product this step was chosen for
+    machines: number;            // Exact (fractional) machine count at the plan's clock speed
+    inputs: ItemRate[];          // Total consumption of all machines
+    outputs: ItemRate[];         // Total production of all machines
+    power: number;               // MW, for the rounded-up machine count
+}
+
+export interface ProductionPlan {
+    target: ItemRate;
+    clockSpeed: number;          // Percent every machine runs at
+    amplified: boolean;          // Every somersloop slot filled
+    steps: PlanStep[];           // Target first, then its ingredients
+    rawResources: ItemRate[];    // Items that must be supplied from outside the chain
+    byproducts: ItemRate[];      // Secondary products nobody in the chain consumes
+    totalMachines: number;       // Sum of rounded-up machine counts
+    totalPower: number;          // MW
+}
+
+export interface PlannerOptions {
+    recipes?: Record<string, string>; // Item -> recipe name, overrides the default choice
+    clockSpeed?: number;              // Percent for every machine (default 100)
+    amplified?: boolean;              // Fill every somersloop slot (more output, same input)
+}
+
+/**
+ * Computes the production chain for a target item rate.
+ * Pure TypeScript on top of the recipe data (no Phaser dependency).
+ *
+ * Each item gets one recipe (the default or an override). Demand is pushed from the
+ * target down to the raw resources in topological order, so intermediates shared by
+ * several consumers are only planned once. Byproducts are reported, not reused.
+ */
+export class ProductionPlanner {
+    constructor(private data: DataManager = DataManager.getInstance()) {}
+
+    /**
+     * Plan the chain producing `rate` items per minute of `item`
+     */
+    public plan(item: string, rate: number, options: PlannerOptions = {}): ProductionPlan {
+        const choices = new Map<string, RecipeDef>();
+        const rawEdges = new Set<string>(); // "consumer>ingredient" links that would close a loop
+        const order: string[] = [];
+
+        // Depth-first walk: pick a recipe per item and collect a topological order
+        const visited = new Set<string>();
+        const onPath = new Set<string>();
+        const visit = (current: string) => {
+            visited.add(current);
+            onPath.add(current);
+
+            const recipe = this.chooseRecipe(current, options);
+            if (recipe) {
+                choices.set(current, recipe);
+                recipe.inputs.forEach(input => {
+                    if (onPath.has(input.item)) {
+                        rawEdges.add(`${current}>${input.item}`);
+                    } else if (!visited.has(input.item)) {
+                        visit(input.item);
+                    }
+                });
+            }
+
+            onPath.delete(current);
+            order.unshift(current);
+        };
+        visit(item);
+
+        // Push demand down the chain
+        const demand = new Map<string, number>([[item, rate]]);
+        const raw = new Map<string, number>();
+        const byproducts = new Map<string, number>();
+        const steps: PlanStep[] = [];
+
+        const add = (map: Map<string, number>, key: string, value: number) => {
+            map.set(key, (map.get(key) || 0) + value);
+        };
+
+        const clockSpeed = clampClockSpeed(options.clockSpeed ?? DEFAULT_CLOCK_SPEED);
+        const amplified = options.amplified ?? false;
+        const perMinute = (quantity: number, recipe: RecipeDef) =>
+            itemsPerMinute(quantity, recipe.craftTime) * getClockMultiplier(clockSpeed);
+
+        order.forEach(current => {
+            const needed = demand.get(current) || 0;
+            const recipe = choices.get(current);
+            if (needed <= 0) return;
+
+            if (!recipe) {
+                add(raw, current, needed);
+                return;
+            }
+
+            const slots = this.data.getSomersloopSlots(recipe.machine);
+            const somersloops = amplified ? slots : 0;
+            const amplification = getAmplification(somersloops, slots);
+
+            const product = recipe.outputs.find(output => output.item === current)!;
+            const machines = needed / (perMinute(product.quantity, recipe) * amplification);
+
+            const inputs = recipe.inputs.map(input => ({
+                item: input.item,
+                rate: perMinute(input.quantity, recipe) * machines
+            }));
+            const outputs = recipe.outputs.map(output => ({
+                item: output.item,
+                rate: perMinute(output.quantity, recipe) * amplification * machines
+            }));
+
+            inputs.forEach(input => {
+                add(rawEdges.has(`${current}>${input.item}`) ? raw : demand, input.item, input.rate);
+            });
+            outputs.forEach(output => {
+                if (output.item !== current) add(byproducts, output.item, output.rate);
+            });
+
+            const basePower = this.data.getMachine(recipe.machine)?.basePower ?? 0;
+            steps.push({
+                recipe,
+                item: current,
+                machines,
+                inputs,
+                outputs,
+                power: getPowerUsage(basePower, clockSpeed) * getAmplificationPower(somersloops, slots) * Math.ceil(machines - 1e-9)
+            });
+        });
+
+        const toRates = (map: Map<string, number>) => Array.from(map, ([name, value]) => ({ item: name, rate: value }));
+
+        return {
+            target: { item, rate },
+            clockSpeed,
+            amplified,
+            steps,
+            rawResources: toRates(raw),
+            byproducts: toRates(byproducts),
+            totalMachines: steps.reduce((sum, step) => sum + Math.ceil(step.machines - 1e-9), 0),
+            totalPower: steps.reduce((sum, step) => sum + step.power, 0)
+        };
+    }
+
+    /**
+     * Recipes that can make an item, the default choice first
+     */
+    public getRecipeOptions(item: string): RecipeDef[] {
+        const preferred = this.getDefaultRecipe(item);
+        const others = this.data.getRecipesProducing(item)
+            .filter(recipe => recipe !== preferred)
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        return preferred ? [preferred, ...others] : others;
+    }
+
+    /**
+     * The standard recipe for an item: the one named after it, otherwise a
+     * non-alternate recipe with the item as its main product. Raw resources have none.
+     */
+    public getDefaultRecipe(item: string): RecipeDef | null {
+        if (this.data.isRawResource(item)) return null;
+
+        const candidates = this.data.getRecipesProducing(item)
+            .filter(recipe => recipe.outputs[0].item === item);
+        const standard = candidates.filter(recipe => !recipe.name.endsWith('- Alternate'));
+
+        return standard.find(recipe => recipe.name === item)
+            ?? standard[0]
+            ?? candidates[0]
+            ?? null;
+    }
+
+    private chooseRecipe(item: string, options: PlannerOptions): RecipeDef | null {
+        const override = options.recipes?.[item];
+        if (override) {
+            const recipe = this.data.getRecipe(override);
+            if (recipe && recipe.outputs.some(output => output.item === item)) return recipe;
+        }
+
+        return this.getDefaultRecipe(item);
+    }
+}
@@ -0,0 +1,156 @@
+import { DataManager } from "../managers/DataManager";
+import { GraphManager } from "../managers/GraphManager";
+import { FlowResult } from "./FlowSystem";
+
+/**
+ * What a sink took in over the measurement window
+ */
+export interface SinkMeasurement {
+    nodeId: string;
+    rates: Map<string, number>;   // Items per minute, per item
+    rate: number;                 // Items per minute in total
+    pointsPerMinute: number;
+    points: number;               // Points awarded since the sink was placed
+}
+
+/**
+ * Items a sink took in during one time step
+ */
+interface SinkSample {
+    seconds: number;
+    items: Map<string, number>;   // Item -> count
+}
+
+/**
+ * Sink bookkeeping: measures what every sink takes in over a sliding window and
+ * awards AWESOME points per item (from the item's sinkPoints in the game data).
+ * Objectives and statistics read the measurements; nothing here changes the flow.
+ * Works purely on the GraphManager topology (no Phaser dependency).
+ */
+export class SinkSystem {
+    // Length of the sliding window rates are averaged over (seconds)
+    public static readonly DEFAULT_WINDOW = 60;
+
+    private samples: Map<string, SinkSample[]> = new Map();
+    private points: Map<string, number> = new Map();
+    private totalPoints: number = 0;              // Kept when sinks are removed
+
+    constructor(
+        public windowSeconds: number = SinkSystem.DEFAULT_WINDOW,
+        private data: DataManager = DataManager.getInstance()
+    ) {}
+
+    /**
+     * Record what reached each sink while the given flow held
+     * @param seconds - How long the flow held
+     * @param counted - Items each sink took, where counted one by one (time-stepped mode)
+     */
+    public update(
+        graph: GraphManager,
+        flow: FlowResult,
+        seconds: number,
+        counted?: ReadonlyMap<string, Map<string, number>>
+    ): void {
+        const sinks = graph.getNodes().filter(node => node.kind === 'FACTORY' && this.data.isSink(node.machine!));
+
+        // Removed sinks take their measurements with them
+        const present = new Set(sinks.map(sink => sink.id));
+        Array.from(this.samples.keys()).forEach(nodeId => {
+            if (!present.has(nodeId)) this.forget(nodeId);
+        });
+
+        sinks.forEach(sink => {
+            if (counted) {
+                this.record(sink.id, new Map(counted.get(sink.id) || []), seconds);
+                return;
+            }
+
+            const items = new Map<string, number>();
+            graph.getPorts(sink.id, 'INPUT').forEach(port => {
+                const belt = port.edgeId ? flow.beltFlows.get(port.edgeId) : undefined;
+                belt?.items.forEach((rate, item) => {
+                    items.set(item, (items.get(item) || 0) + rate * seconds / 60);
+                });
+            });
+            this.record(sink.id, items, seconds);
+        });
+    }
+
+    /**
+     * Record items a sink took in during one time step and award their points
+     * @param items - Item -> count (fractions allowed)
+     */
+    public record(nodeId: string, items: Map<string, number>, seconds: number): void {
+        if (seconds <= 0) return;
+
+        let points = 0;
+        items.forEach((count, item) => points += count * this.data.getSinkPoints(item));
+        this.points.set(nodeId, (this.points.get(nodeId) || 0) + points);
+        this.totalPoints += points;
+
+        const samples = this.samples.get(nodeId) || [];
+        samples.push({ seconds, items });
+
+        // Drop samples that fell out of the window
+        let span = samples.reduce((sum, sample) => sum + sample.seconds, 0);
+        while (samples.length > 1 && span - samples[0].seconds >= this.windowSeconds) {
+            span -= samples.shift()!.seconds;
+        }
+        this.samples.set(nodeId, samples);
+    }
+
+    /**
+     * Rates over the window (undefined for nodes that never sank anything)
+     */
+    public getMeasurement(nodeId: string): SinkMeasurement | undefined {
+        const samples = this.samples.get(nodeId);
+        if (!samples) return undefined;
+
+        const span = samples.reduce((sum, sample) => sum + sample.seconds, 0);
+        const rates = new Map<string, number>();
+        samples.forEach(sample => sample.items.forEach((count, item) => {
+            rates.set(item, (rates.get(item) || 0) + count * 60 / span);
+        }));
+
+        let rate = 0;
+        let pointsPerMinute = 0;
+        rates.forEach((value, item) => {
+            rate += value;
+            pointsPerMinute += value * this.data.getSinkPoints(item);
+        });
+
+        return { nodeId, rates, rate, pointsPerMinute, points: this.points.get(nodeId) || 0 };
+    }
+
+    public getMeasurements(): SinkMeasurement[] {
+        return Array.from(this.samples.keys()).map(nodeId => this.getMeasurement(nodeId)!);
+    }
+
+    /**
+     * Items per minute of one item reaching all sinks together
+     */
+    public getItemRate(item: string): number {
+        return this.getMeasurements().reduce((sum, measurement) => sum + (measurement.rates.get(item) || 0), 0);
+    }
+
+    /**
+     * Points awarded by all sinks together, removed ones included
+     */
+    public getTotalPoints(): number {
+        return this.totalPoints;
+    }
+
+    /**
+     * Forget a sink's measurements (its points stay in the total)
+     */
+    public forget(nodeId: string): void {
+        this.samples.delete(nodeId);
+        this.points.delete(nodeId);
+    }
+
+    public clear(): void {
+        this.samples.clear();
+        this.points.clear();
+        this.totalPoints = 0;
+    }
+}
@@ -0,0 +1,127 @@
+import { DataManager } from "../managers/DataManager";
+import { GraphManager, GraphNode } from "../managers/GraphManager";
+import { FlowResult } from "./FlowSystem";
+import { StorageLevel, getStorage, getStorageCapacity, getStorageFill } from "../utils/Storage";
+
+/**
+ * Storage bookkeeping: tracks what every storage container and fluid buffer holds.
+ * Each time step adds what came in and takes away what went out; the FlowSystem
+ * reads the resulting levels to decide whether a storage takes in or hands out stock.
+ * In time-stepped mode the DiscreteFlowSystem moves single items in and out instead.
+ * Contents are simulation state and are not saved with the layout.
+ * Works purely on the GraphManager topology (no Phaser dependency).
+ */
+export class StorageSystem {
+    private contents: Map<string, Map<string, number>> = new Map(); // Node ID -> item -> count (or m³)
+
+    constructor(private data: DataManager = DataManager.getInstance()) {}
+
+    /**
+     * Move the items that entered and left each storage while the given flow held
+     * @param seconds - How long the flow held
+     */
+    public update(graph: GraphManager, flow: FlowResult, seconds: number): void {
+        const storages = this.getStorages(graph);
+
+        // Removed storages lose their contents
+        const present = new Set(storages.map(storage => storage.id));
+        Array.from(this.contents.keys()).forEach(nodeId => {
+            if (!present.has(nodeId)) this.empty(nodeId);
+        });
+
+        if (seconds <= 0) return;
+
+        storages.forEach(storage => {
+            const items = new Map(this.contents.get(storage.id) || []);
+            const move = (type: 'INPUT' | 'OUTPUT', sign: number) => {
+                graph.getPorts(storage.id, type).forEach(port => {
+                    const belt = port.edgeId ? flow.beltFlows.get(port.edgeId) : undefined;
+                    belt?.items.forEach((rate, item) => {
+                        items.set(item, (items.get(item) || 0) + sign * rate * seconds / 60);
+                    });
+                });
+            };
+            move('INPUT', 1);
+            move('OUTPUT', -1);
+
+            // Rounding (and a time step longer than the stock lasts) must not leave negative or overfull contents
+            items.forEach((count, item) => {
+                if (count <= 1e-6) items.delete(item);
+            });
+            const fill = getStorageFill(getStorage(storage.machine!)!, items, item => this.data.getStackSize(item));
+            if (fill > 1) items.forEach((count, item) => items.set(item, count / fill));
+
+            this.contents.set(storage.id, items);
+        });
+    }
+
+    /**
+     * Contents and fill of every storage in the graph (for FlowSystem.solve)
+     */
+    public getLevels(graph: GraphManager): Map<string, StorageLevel> {
+        const levels = new Map<string, StorageLevel>();
+        this.getStorages(graph).forEach(storage => levels.set(storage.id, this.getLevel(graph, storage.id)!));
+        return levels;
+    }
+
+    /**
+     * Contents and fill of one storage (undefined for nodes that are not storages)
+     */
+    public getLevel(graph: GraphManager, nodeId: string): StorageLevel | undefined {
+        const storage = getStorage(graph.getNode(nodeId)?.machine ?? '');
+        if (!storage) return undefined;
+
+        const items = new Map(this.contents.get(nodeId) || []);
+        return { items, fill: getStorageFill(storage, items, item => this.data.getStackSize(item)) };
+    }
+
+    /**
+     * Put items into a storage if they all fit (time-stepped simulation)
+     */
+    public store(graph: GraphManager, nodeId: string, item: string, count: number): boolean {
+        const storage = getStorage(graph.getNode(nodeId)?.machine ?? '');
+        if (!storage) return false;
+
+        const items = this.contents.get(nodeId) || new Map<string, number>();
+        const fill = getStorageFill(storage, items, stored => this.data.getStackSize(stored))
+            + count / getStorageCapacity(storage, this.data.getStackSize(item));
+        if (fill > 1 + 1e-6) return false;
+
+        items.set(item, (items.get(item) || 0) + count);
+        this.contents.set(nodeId, items);
+        return true;
+    }
+
+    /**
+     * Take items of the longest-stored item that has enough of them (time-stepped simulation)
+     * @returns The item taken, or null if nothing has enough
+     */
+    public take(nodeId: string, count: number): string | null {
+        const items = this.contents.get(nodeId);
+        if (!items) return null;
+
+        for (const [item, stored] of items) {
+            if (stored < count - 1e-6) continue;
+
+            if (stored - count <= 1e-6) {
+                items.delete(item);
+            } else {
+                items.set(item, stored - count);
+            }
+            return item;
+        }
+        return null;
+    }
+
+    public empty(nodeId: string): void {
+        this.contents.delete(nodeId);
+    }
+
+    public clear(): void {
+        this.contents.clear();
+    }
+
+    private getStorages(graph: GraphManager): GraphNode[] {
+        return graph.getNodes().filter(node => node.kind === 'FACTORY' && this.data.isStorage(node.machine!));
+    }
+}
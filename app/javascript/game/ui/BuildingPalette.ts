@@ -0,0 +1,277 @@
+import { DataManager } from "../managers/DataManager";
+
+interface PaletteEntry {
+    name: string;
+    category: string;
+    size: { w: number, h: number };
+    inputCount: number;
+    outputCount: number;
+}
+
+/**
+ * DOM side panel listing every machine from the loaded data, grouped by category.
+ * Supports filtering by name, keyboard navigation (arrows + Enter) and remembers
+ * the most recently placed machines.
+ */
+export class BuildingPalette {
+    private static readonly RECENT_KEY = 'flowfactory.recentMachines';
+    private static readonly MAX_RECENT = 5;
+
+    private container: HTMLElement;
+    private search: HTMLInputElement;
+    private list: HTMLElement;
+
+    private entries: PaletteEntry[] = [];
+    private recent: string[] = [];
+    private visible: string[] = [];              // Machine names in display order (for keyboard navigation)
+    private rows: HTMLElement[] = [];            // Row element for each visible entry
+    private highlighted: number = -1;
+    private active: string | null = null;        // Machine currently being placed
+
+    /**
+     * @param hidden - Machines left out of the palette (e.g. spawns outside the sandbox)
+     */
+    constructor(private onSelect: (machine: string) => void, hidden: string[] = []) {
+        const data = DataManager.getInstance();
+        this.entries = data.machines
+            .filter(machine => !hidden.includes(machine.name))
+            .map(machine => ({
+                name: machine.name,
+                category: data.getMachineCategory(machine.name),
+                size: data.getMachineSize(machine.name),
+                inputCount: machine.inputCount,
+                outputCount: machine.outputCount
+            }))
+            .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+
+        this.recent = this.loadRecent();
+
+        this.container = document.createElement('div');
+        Object.assign(this.container.style, {
+            position: 'fixed',
+            top: '20px',
+            left: '20px',
+            width: '220px',
+            maxHeight: '70vh',
+            display: 'flex',
+            flexDirection: 'column',
+            padding: '12px',
+            background: 'rgba(20, 20, 30, 0.95)',
+            border: '2px solid #4488cc',
+            borderRadius: '12px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.5)',
+            color: '#fff',
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '12px',
+            userSelect: 'none',
+            zIndex: '1000'
+        });
+
+        const title = document.createElement('div');
+        title.textContent = 'Buildings (B)';
+        Object.assign(title.style, {
+            fontSize: '14px',
+            fontWeight: 'bold',
+            marginBottom: '8px',
+            color: '#66aaff'
+        });
+
+        this.search = document.createElement('input');
+        this.search.type = 'text';
+        this.search.placeholder = 'Search machines...';
+        Object.assign(this.search.style, {
+            marginBottom: '8px',
+            padding: '4px 6px',
+            background: '#2a2a3a',
+            color: '#fff',
+            border: '1px solid #444',
+            borderRadius: '4px',
+            outline: 'none'
+        });
+        this.search.oninput = () => this.render();
+        this.search.onkeydown = (e) => this.handleKey(e);
+
+        this.list = document.createElement('div');
+        this.list.style.overflowY = 'auto';
+
+        this.container.appendChild(title);
+        this.container.appendChild(this.search);
+        this.container.appendChild(this.list);
+        document.body.appendChild(this.container);
+
+        this.render();
+    }
+
+    /**
+     * Focus the search box (keyboard shortcut)
+     */
+    public focus(): void {
+        this.search.focus();
+        this.search.select();
+    }
+
+    /**
+     * Highlight the machine currently being placed (null for none)
+     */
+    public setActive(machine: string | null): void {
+        this.active = machine;
+        this.updateStyles();
+    }
+
+    /**
+     * Remove the panel from the page
+     */
+    public destroy(): void {
+        this.container.parentNode?.removeChild(this.container);
+    }
+
+    private render(): void {
+        this.list.innerHTML = '';
+        this.rows = [];
+        this.visible = [];
+
+        const query = this.search.value.trim().toLowerCase();
+        const matches = this.entries.filter(entry => entry.name.toLowerCase().includes(query));
+
+        // Recently used (only while not searching)
+        if (!query) {
+            const recent = this.recent
+                .map(name => this.entries.find(entry => entry.name === name))
+                .filter((entry): entry is PaletteEntry => entry !== undefined);
+
+            if (recent.length > 0) {
+                this.addHeading('Recent');
+                recent.forEach(entry => this.addEntry(entry));
+            }
+        }
+
+        let category = '';
+        matches.forEach(entry => {
+            if (entry.category !== category) {
+                category = entry.category;
+                this.addHeading(category);
+            }
+            this.addEntry(entry);
+        });
+
+        if (matches.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = this.entries.length === 0 ? 'No machine data loaded.' : 'No matches.';
+            empty.style.color = '#888888';
+            this.list.appendChild(empty);
+        }
+
+        this.highlighted = query && this.visible.length > 0 ? 0 : -1;
+        this.updateStyles();
+    }
+
+    private addHeading(text: string): void {
+        const heading = document.createElement('div');
+        heading.textContent = text;
+        Object.assign(heading.style, {
+            marginTop: '8px',
+            marginBottom: '4px',
+            fontWeight: 'bold',
+            color: '#aaaaaa',
+            textTransform: 'uppercase',
+            fontSize: '10px'
+        });
+        this.list.appendChild(heading);
+    }
+
+    private addEntry(entry: PaletteEntry): void {
+        const row = document.createElement('div');
+        Object.assign(row.style, {
+            display: 'flex',
+            justifyContent: 'space-between',
+            padding: '4px 6px',
+            margin: '2px 0',
+            borderRadius: '4px',
+            border: '1px solid transparent',
+            cursor: 'pointer'
+        });
+
+        const name = document.createElement('span');
+        name.textContent = entry.name;
+
+        const info = document.createElement('span');
+        info.textContent = `${entry.size.w}×${entry.size.h} · ${entry.inputCount}→${entry.outputCount}`;
+        info.style.color = '#888888';
+
+        row.appendChild(name);
+        row.appendChild(info);
+        row.onmousedown = (e) => {
+            e.preventDefault();
+            this.select(entry.name);
+        };
+
+        this.list.appendChild(row);
+        this.visible.push(entry.name);
+        this.rows.push(row);
+    }
+
+    private handleKey(e: KeyboardEvent): void {
+        // Keep the scene's shortcuts from firing while typing
+        e.stopPropagation();
+
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault();
+                this.moveHighlight(1);
+                break;
+            case 'ArrowUp':
+                e.preventDefault();
+                this.moveHighlight(-1);
+                break;
+            case 'Enter':
+                if (this.highlighted >= 0) {
+                    this.select(this.visible[this.highlighted]);
+                }
+                break;
+            case 'Escape':
+                this.search.value = '';
+                this.search.blur();
+                this.render();
+                break;
+        }
+    }
+
+    private moveHighlight(step: number): void {
+        if (this.visible.length === 0) return;
+
+        this.highlighted = (this.highlighted + step + this.visible.length) % this.visible.length;
+        this.updateStyles();
+        this.rows[this.highlighted]?.scrollIntoView({ block: 'nearest' });
+    }
+
+    private select(machine: string): void {
+        this.recent = [machine, ...this.recent.filter(name => name !== machine)].slice(0, BuildingPalette.MAX_RECENT);
+        this.saveRecent();
+
+        this.search.value = '';
+        this.search.blur();
+        this.render();
+
+        this.onSelect(machine);
+    }
+
+    private updateStyles(): void {
+        this.rows.forEach((row, index) => {
+            row.style.backgroundColor = this.visible[index] === this.active ? '#4488cc' : '#2a2a3a';
+            row.style.borderColor = index === this.highlighted ? '#66aaff' : 'transparent';
+        });
+    }
+
+    private loadRecent(): string[] {
+        try {
+            const stored = JSON.parse(window.localStorage.getItem(BuildingPalette.RECENT_KEY) || '[]');
+            return Array.isArray(stored) ? stored.filter(name => typeof name === 'string') : [];
+        } catch {
+            return [];
+        }
+    }
+
+    private saveRecent(): void {
+        window.localStorage.setItem(BuildingPalette.RECENT_KEY, JSON.stringify(this.recent));
+    }
+}
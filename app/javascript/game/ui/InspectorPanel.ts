@@ -0,0 +1,239 @@
+/**
+ * DOM side panel showing properties of the current selection.
+ * The scene rebuilds its content whenever the selection (or the selected entity) changes.
+ */
+export class InspectorPanel {
+    private container: HTMLElement;
+    private content: HTMLElement;
+    private title: HTMLElement;
+
+    constructor() {
+        this.container = document.createElement('div');
+        Object.assign(this.container.style, {
+            position: 'fixed',
+            top: '20px',
+            right: '20px',
+            width: '260px',
+            maxHeight: '70vh',
+            overflowY: 'auto',
+            padding: '12px',
+            background: 'rgba(20, 20, 30, 0.95)',
+            border: '2px solid #4488cc',
+            borderRadius: '12px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.5)',
+            color: '#fff',
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '12px',
+            userSelect: 'none',
+            zIndex: '1000',
+            display: 'none'
+        });
+
+        this.title = document.createElement('div');
+        Object.assign(this.title.style, {
+            fontSize: '14px',
+            fontWeight: 'bold',
+            marginBottom: '8px',
+            color: '#66aaff'
+        });
+
+        this.content = document.createElement('div');
+
+        this.container.appendChild(this.title);
+        this.container.appendChild(this.content);
+        document.body.appendChild(this.container);
+    }
+
+    /**
+     * Clear the panel and show it with a new title
+     */
+    public open(title: string): void {
+        this.title.textContent = title;
+        this.content.innerHTML = '';
+        this.container.style.display = 'block';
+    }
+
+    /**
+     * Hide the panel
+     */
+    public close(): void {
+        this.container.style.display = 'none';
+        this.content.innerHTML = '';
+    }
+
+    public isOpen(): boolean {
+        return this.container.style.display !== 'none';
+    }
+
+    /**
+     * Add a section heading
+     */
+    public addHeading(text: string): void {
+        const heading = document.createElement('div');
+        heading.textContent = text;
+        Object.assign(heading.style, {
+            marginTop: '10px',
+            marginBottom: '4px',
+            fontWeight: 'bold',
+            color: '#aaaaaa',
+            textTransform: 'uppercase',
+            fontSize: '10px'
+        });
+        this.content.appendChild(heading);
+    }
+
+    /**
+     * Add a read-only "label: value" row. Returns the value element so it can be updated live.
+     */
+    public addRow(label: string, value: string): HTMLElement {
+        const row = this.createRow(label);
+
+        const valueEl = document.createElement('span');
+        valueEl.textContent = value;
+        valueEl.style.color = '#ffffff';
+        row.appendChild(valueEl);
+
+        this.content.appendChild(row);
+        return valueEl;
+    }
+
+    /**
+     * Add a dropdown row
+     */
+    public addSelect(
+        label: string,
+        options: { value: string, label: string }[],
+        selected: string,
+        onChange: (value: string) => void
+    ): HTMLSelectElement {
+        const row = this.createRow(label);
+
+        const select = document.createElement('select');
+        Object.assign(select.style, {
+            maxWidth: '150px',
+            background: '#2a2a3a',
+            color: '#fff',
+            border: '1px solid #444',
+            borderRadius: '4px'
+        });
+
+        options.forEach(option => {
+            const el = document.createElement('option');
+            el.value = option.value;
+            el.textContent = option.label;
+            el.selected = option.value === selected;
+            select.appendChild(el);
+        });
+
+        select.onchange = () => onChange(select.value);
+
+        // Keep keyboard shortcuts from firing while the dropdown has focus
+        select.onkeydown = (e) => e.stopPropagation();
+
+        row.appendChild(select);
+        this.content.appendChild(row);
+        return select;
+    }
+
+    /**
+     * Add a number input row. onChange fires when the edit is committed (Enter or blur).
+     */
+    public addNumberInput(
+        label: string,
+        value: number,
+        min: number,
+        max: number,
+        onChange: (value: number) => void
+    ): HTMLInputElement {
+        const row = this.createRow(label);
+
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = String(min);
+        input.max = String(max);
+        input.value = String(value);
+        Object.assign(input.style, {
+            width: '70px',
+            padding: '2px 4px',
+            background: '#2a2a3a',
+            color: '#fff',
+            border: '1px solid #444',
+            borderRadius: '4px'
+        });
+
+        input.onchange = () => {
+            const parsed = parseFloat(input.value);
+            if (Number.isFinite(parsed)) onChange(parsed);
+        };
+
+        // Keep keyboard shortcuts from firing while typing
+        input.onkeydown = (e) => e.stopPropagation();
+
+        row.appendChild(input);
+        this.content.appendChild(row);
+        return input;
+    }
+
+    /**
+     * Add a full-width button
+     */
+    public addButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = label;
+        Object.assign(button.style, {
+            width: '100%',
+            margin: '6px 0',
+            padding: '4px 8px',
+            background: '#2a2a3a',
+            color: '#fff',
+            border: '1px solid #4488cc',
+            borderRadius: '4px',
+            cursor: 'pointer'
+        });
+
+        button.onclick = () => onClick();
+
+        this.content.appendChild(button);
+        return button;
+    }
+
+    /**
+     * Add a free text line (hints, warnings)
+     */
+    public addNote(text: string, color: string = '#888888'): HTMLElement {
+        const note = document.createElement('div');
+        note.textContent = text;
+        Object.assign(note.style, {
+            color,
+            fontSize: '11px',
+            margin: '4px 0'
+        });
+        this.content.appendChild(note);
+        return note;
+    }
+
+    /**
+     * Remove the panel from the page
+     */
+    public destroy(): void {
+        this.container.parentNode?.removeChild(this.container);
+    }
+
+    private createRow(label: string): HTMLElement {
+        const row = document.createElement('div');
+        Object.assign(row.style, {
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '8px',
+            margin: '4px 0'
+        });
+
+        const labelEl = document.createElement('span');
+        labelEl.textContent = label;
+        labelEl.style.color = '#aaaaaa';
+        row.appendChild(labelEl);
+
+        return row;
+    }
+}
@@ -0,0 +1,123 @@
+import { ObjectiveProgress } from "../systems/ObjectiveSystem";
+
+/**
+ * DOM heads-up display for the campaign: the current milestone, the rate of each
+ * required item reaching the sinks against its target, and how long the rates
+ * have held out of the sustain window. Rebuilt from the ObjectiveSystem's progress
+ * every flow tick.
+ */
+export class ObjectiveHud {
+    private container: HTMLElement;
+    private content: HTMLElement;
+
+    constructor() {
+        this.container = document.createElement('div');
+        Object.assign(this.container.style, {
+            position: 'fixed',
+            bottom: '20px',
+            left: '20px',
+            width: '240px',
+            padding: '12px',
+            background: 'rgba(20, 20, 30, 0.95)',
+            border: '2px solid #4488cc',
+            borderRadius: '12px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.5)',
+            color: '#fff',
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '12px',
+            userSelect: 'none',
+            pointerEvents: 'none',
+            zIndex: '1000'
+        });
+
+        const title = document.createElement('div');
+        title.textContent = 'Objective';
+        Object.assign(title.style, {
+            fontSize: '14px',
+            fontWeight: 'bold',
+            marginBottom: '8px',
+            color: '#66aaff'
+        });
+
+        this.content = document.createElement('div');
+
+        this.container.appendChild(title);
+        this.container.appendChild(this.content);
+        document.body.appendChild(this.container);
+    }
+
+    public update(progress: ObjectiveProgress): void {
+        this.content.innerHTML = '';
+
+        const count = document.createElement('div');
+        count.textContent = `Milestones: ${progress.completed} / ${progress.total}`;
+        count.style.color = '#aaaaaa';
+        count.style.marginBottom = '6px';
+        this.content.appendChild(count);
+
+        if (!progress.milestone) {
+            const done = document.createElement('div');
+            done.textContent = '✔ All milestones complete';
+            Object.assign(done.style, { color: '#44ff44', fontWeight: 'bold' });
+            this.content.appendChild(done);
+            return;
+        }
+
+        const name = document.createElement('div');
+        name.textContent = progress.milestone.name;
+        Object.assign(name.style, { fontWeight: 'bold', marginBottom: '6px' });
+        this.content.appendChild(name);
+
+        progress.requirements.forEach(requirement => {
+            const current = Number(requirement.current.toFixed(1));
+            this.addBar(
+                `${requirement.item}: ${current} / ${requirement.rate}/min`,
+                requirement.current / requirement.rate,
+                requirement.met ? '#44ff44' : '#ffaa00'
+            );
+        });
+
+        // The window only runs while every rate is met
+        const held = Math.floor(progress.sustained);
+        this.addBar(
+            `Sustained: ${held} / ${progress.sustainSeconds} s`,
+            progress.sustained / progress.sustainSeconds,
+            '#66aaff'
+        );
+    }
+
+    public destroy(): void {
+        this.container.parentNode?.removeChild(this.container);
+    }
+
+    /**
+     * Add a caption with a progress bar under it
+     * @param share - Filled part of the bar (clamped to 0-1)
+     */
+    private addBar(caption: string, share: number, color: string): void {
+        const label = document.createElement('div');
+        label.textContent = caption;
+        label.style.marginTop = '4px';
+
+        const track = document.createElement('div');
+        Object.assign(track.style, {
+            height: '6px',
+            marginTop: '2px',
+            background: '#2a2a3a',
+            border: '1px solid #444',
+            borderRadius: '3px',
+            overflow: 'hidden'
+        });
+
+        const fill = document.createElement('div');
+        Object.assign(fill.style, {
+            width: `${Math.round(Math.max(0, Math.min(1, share)) * 100)}%`,
+            height: '100%',
+            background: color
+        });
+
+        track.appendChild(fill);
+        this.content.appendChild(label);
+        this.content.appendChild(track);
+    }
+}
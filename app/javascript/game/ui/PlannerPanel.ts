@@ -0,0 +1,370 @@
+import { DataManager } from "../managers/DataManager";
+import { ProductionPlanner, ProductionPlan } from "../systems/ProductionPlanner";
+import { DEFAULT_CLOCK_SPEED, MAX_CLOCK_SPEED, MIN_CLOCK_SPEED } from "../utils/ClockSpeed";
+import { OBJECTIVE_LABELS, OptimizationResult, OptimizerObjective, ProductionOptimizer } from "../systems/ProductionOptimizer";
+
+/**
+ * DOM panel for the production planner: pick a target item and rate and see
+ * the full chain (machines per recipe, raw resources, byproducts, power).
+ * Each step's recipe can be swapped for an alternate, or the optimizer can
+ * choose the recipes for an objective within per-resource caps. All machines
+ * run at the same clock speed and optionally with every somersloop slot filled.
+ */
+export class PlannerPanel {
+    private container: HTMLElement;
+    private itemInput: HTMLInputElement;
+    private rateInput: HTMLInputElement;
+    private clockInput: HTMLInputElement;
+    private amplifiedInput: HTMLInputElement;
+    private modeSelect: HTMLSelectElement;
+    private capsSection: HTMLElement;
+    private capInputs: Map<string, HTMLInputElement> = new Map();
+    private results: HTMLElement;
+
+    private planner: ProductionPlanner = new ProductionPlanner();
+    private optimizer: ProductionOptimizer = new ProductionOptimizer();
+    private recipeOverrides: Record<string, string> = {}; // Item -> recipe name
+
+    constructor(targetItem: string = 'Iron Plate', targetRate: number = 20) {
+        this.container = document.createElement('div');
+        Object.assign(this.container.style, {
+            position: 'fixed',
+            top: '20px',
+            left: '270px',
+            width: '340px',
+            maxHeight: '70vh',
+            overflowY: 'auto',
+            padding: '12px',
+            background: 'rgba(20, 20, 30, 0.95)',
+            border: '2px solid #4488cc',
+            borderRadius: '12px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.5)',
+            color: '#fff',
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '12px',
+            zIndex: '1000',
+            display: 'none'
+        });
+
+        const title = document.createElement('div');
+        title.textContent = 'Production Planner (P)';
+        Object.assign(title.style, {
+            fontSize: '14px',
+            fontWeight: 'bold',
+            marginBottom: '8px',
+            color: '#66aaff'
+        });
+
+        // Target item (with suggestions for every craftable item) and rate
+        const datalist = document.createElement('datalist');
+        datalist.id = 'planner-items';
+        const craftable = new Set<string>();
+        DataManager.getInstance().recipes.forEach(recipe => recipe.outputs.forEach(output => craftable.add(output.item)));
+        Array.from(craftable).sort().forEach(item => {
+            const option = document.createElement('option');
+            option.value = item;
+            datalist.appendChild(option);
+        });
+
+        this.itemInput = this.createInput('text', targetItem);
+        this.itemInput.setAttribute('list', datalist.id);
+        this.itemInput.style.flex = '1';
+
+        this.rateInput = this.createInput('number', String(targetRate));
+        this.rateInput.min = '0';
+        this.rateInput.step = '0.5';
+        this.rateInput.style.width = '60px';
+
+        const perMinute = document.createElement('span');
+        perMinute.textContent = '/min';
+        perMinute.style.color = '#aaaaaa';
+
+        // Clock speed of every machine in the plan
+        this.clockInput = this.createInput('number', String(DEFAULT_CLOCK_SPEED));
+        this.clockInput.min = String(MIN_CLOCK_SPEED);
+        this.clockInput.max = String(MAX_CLOCK_SPEED);
+        this.clockInput.title = 'Clock speed (%)';
+        this.clockInput.style.width = '50px';
+
+        const percent = document.createElement('span');
+        percent.textContent = '%';
+        percent.style.color = '#aaaaaa';
+
+        const targetRow = document.createElement('div');
+        Object.assign(targetRow.style, { display: 'flex', gap: '6px', alignItems: 'center' });
+        targetRow.append(this.itemInput, this.rateInput, perMinute, this.clockInput, percent);
+
+        // Somersloops in every slot
+        this.amplifiedInput = document.createElement('input');
+        this.amplifiedInput.type = 'checkbox';
+        this.amplifiedInput.onchange = () => this.update();
+
+        const amplifiedRow = document.createElement('label');
+        Object.assign(amplifiedRow.style, { display: 'flex', gap: '6px', alignItems: 'center', marginTop: '6px', color: '#aaaaaa' });
+        amplifiedRow.append(this.amplifiedInput, 'Fill somersloop slots (2× output)');
+
+        // Mode: default recipes (with manual overrides) or one of the optimizer objectives
+        this.modeSelect = this.createSelect();
+        this.modeSelect.style.marginTop = '6px';
+        this.modeSelect.style.width = '100%';
+        this.addOption(this.modeSelect, 'DEFAULT', 'Default recipes');
+        (Object.keys(OBJECTIVE_LABELS) as OptimizerObjective[]).forEach(objective => {
+            this.addOption(this.modeSelect, objective, `Optimize: ${OBJECTIVE_LABELS[objective]}`);
+        });
+        this.modeSelect.onchange = () => this.update();
+
+        // Raw resource caps (blank = unlimited), only used by the optimizer
+        this.capsSection = document.createElement('div');
+        Object.assign(this.capsSection.style, {
+            display: 'none',
+            gridTemplateColumns: '1fr 60px',
+            gap: '2px 6px',
+            alignItems: 'center',
+            marginTop: '6px'
+        });
+        DataManager.getInstance().rawResources.forEach(resource => {
+            const label = document.createElement('span');
+            label.textContent = `${resource} cap`;
+            label.style.color = '#aaaaaa';
+
+            const input = this.createInput('number', '');
+            input.min = '0';
+            input.placeholder = '∞';
+            input.style.width = '60px';
+
+            this.capInputs.set(resource, input);
+            this.capsSection.append(label, input);
+        });
+
+        this.results = document.createElement('div');
+
+        this.container.append(title, datalist, targetRow, amplifiedRow, this.modeSelect, this.capsSection, this.results);
+        document.body.appendChild(this.container);
+
+        this.update();
+    }
+
+    public toggle(): void {
+        this.container.style.display = this.isOpen() ? 'none' : 'block';
+    }
+
+    public isOpen(): boolean {
+        return this.container.style.display !== 'none';
+    }
+
+    /**
+     * Remove the panel from the page
+     */
+    public destroy(): void {
+        this.container.parentNode?.removeChild(this.container);
+    }
+
+    private createInput(type: string, value: string): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = type;
+        input.value = value;
+        Object.assign(input.style, {
+            padding: '4px 6px',
+            background: '#2a2a3a',
+            color: '#fff',
+            border: '1px solid #444',
+            borderRadius: '4px',
+            outline: 'none'
+        });
+
+        input.oninput = () => this.update();
+
+        // Keep keyboard shortcuts from firing while typing
+        input.onkeydown = (e) => e.stopPropagation();
+
+        return input;
+    }
+
+    private createSelect(): HTMLSelectElement {
+        const select = document.createElement('select');
+        Object.assign(select.style, {
+            maxWidth: '170px',
+            background: '#2a2a3a',
+            color: '#fff',
+            border: '1px solid #444',
+            borderRadius: '4px'
+        });
+
+        // Keep keyboard shortcuts from firing while choosing
+        select.onkeydown = (e) => e.stopPropagation();
+
+        return select;
+    }
+
+    private addOption(select: HTMLSelectElement, value: string, label: string, selected: boolean = false): void {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = label;
+        option.selected = selected;
+        select.appendChild(option);
+    }
+
+    /**
+     * Re-plan and redraw the results
+     */
+    private update(): void {
+        this.results.innerHTML = '';
+
+        const mode = this.modeSelect.value;
+        this.capsSection.style.display = mode === 'DEFAULT' ? 'none' : 'grid';
+
+        const item = this.itemInput.value.trim();
+        const rate = parseFloat(this.rateInput.value);
+        const clockSpeed = parseFloat(this.clockInput.value) || DEFAULT_CLOCK_SPEED;
+        const amplified = this.amplifiedInput.checked;
+
+        if (!item || !(rate > 0)) {
+            this.addNote('Enter an item and a rate.');
+            return;
+        }
+
+        if (this.planner.getRecipeOptions(item).length === 0) {
+            this.addNote(`No recipe produces "${item}".`);
+            return;
+        }
+
+        if (mode === 'DEFAULT') {
+            this.renderPlan(this.planner.plan(item, rate, { recipes: this.recipeOverrides, clockSpeed, amplified }), true);
+        } else {
+            this.renderOptimization(this.optimizer.optimize(item, rate, {
+                objective: mode as OptimizerObjective,
+                resourceCaps: this.getCaps(),
+                clockSpeed,
+                amplified
+            }));
+        }
+    }
+
+    private getCaps(): Record<string, number> {
+        const caps: Record<string, number> = {};
+        this.capInputs.forEach((input, resource) => {
+            const cap = parseFloat(input.value);
+            if (cap >= 0) caps[resource] = cap;
+        });
+        return caps;
+    }
+
+    private renderOptimization(result: OptimizationResult): void {
+        if (!result.plan) {
+            this.addNote(result.status === 'infeasible'
+                ? 'No combination of recipes reaches this rate within the caps.'
+                : 'The optimizer could not find a bounded solution.');
+            return;
+        }
+
+        this.renderPlan(result.plan, false);
+
+        this.addHeading('Optimum');
+        const unit = result.objective === 'ORE' ? '/min' : result.objective === 'POWER' ? ' MW' : '';
+        this.addRow(OBJECTIVE_LABELS[result.objective]).appendChild(this.createValue(`${this.format(result.objectiveValue)}${unit}`));
+
+        // Shadow price: how much the objective changes per extra unit of a binding limit
+        this.addHeading('Binding constraints');
+        result.bindingConstraints.forEach(constraint => {
+            const label = constraint.kind === 'TARGET'
+                ? `Target ${constraint.item} ${this.format(constraint.limit)}/min`
+                : `${constraint.item} cap ${this.format(constraint.limit)}/min`;
+            this.addRow(label).appendChild(this.createValue(`${this.format(constraint.shadowPrice)} per unit`));
+        });
+    }
+
+    private renderPlan(plan: ProductionPlan, editable: boolean): void {
+        this.addHeading('Machines');
+        plan.steps.forEach(step => {
+            const row = this.addRow(`${this.format(step.machines)} × ${step.recipe.machine}`);
+
+            if (editable) {
+                const select = this.createSelect();
+                this.planner.getRecipeOptions(step.item).forEach(recipe => {
+                    this.addOption(select, recipe.name, recipe.name, recipe === step.recipe);
+                });
+                select.onchange = () => {
+                    this.recipeOverrides[step.item] = select.value;
+                    this.update();
+                };
+                row.appendChild(select);
+            } else {
+                row.appendChild(this.createValue(step.recipe.name));
+            }
+
+            const flows = step.outputs.map(output => `${output.item} ${this.format(output.rate)}/min`).join(', ');
+            this.addNote(flows);
+        });
+
+        this.addHeading('Raw resources');
+        if (plan.rawResources.length === 0) this.addNote('None');
+        plan.rawResources.forEach(({ item, rate }) => {
+            this.addRow(item).appendChild(this.createValue(`${this.format(rate)}/min`));
+        });
+
+        if (plan.byproducts.length > 0) {
+            this.addHeading('Byproducts');
+            plan.byproducts.forEach(({ item, rate }) => {
+                this.addRow(item).appendChild(this.createValue(`${this.format(rate)}/min`));
+            });
+        }
+
+        this.addHeading('Total');
+        this.addRow('Machines').appendChild(this.createValue(`${plan.totalMachines} at ${this.format(plan.clockSpeed)}%`));
+        this.addRow('Power').appendChild(this.createValue(`${this.format(plan.totalPower)} MW`));
+    }
+
+    private addHeading(text: string): void {
+        const heading = document.createElement('div');
+        heading.textContent = text;
+        Object.assign(heading.style, {
+            marginTop: '10px',
+            marginBottom: '4px',
+            fontWeight: 'bold',
+            color: '#aaaaaa',
+            textTransform: 'uppercase',
+            fontSize: '10px'
+        });
+        this.results.appendChild(heading);
+    }
+
+    private addRow(label: string): HTMLElement {
+        const row = document.createElement('div');
+        Object.assign(row.style, {
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '8px',
+            margin: '4px 0'
+        });
+
+        const labelEl = document.createElement('span');
+        labelEl.textContent = label;
+        row.appendChild(labelEl);
+
+        this.results.appendChild(row);
+        return row;
+    }
+
+    private createValue(text: string): HTMLElement {
+        const value = document.createElement('span');
+        value.textContent = text;
+        value.style.color = '#aaaaaa';
+        return value;
+    }
+
+    private addNote(text: string): void {
+        const note = document.createElement('div');
+        note.textContent = text;
+        Object.assign(note.style, {
+            color: '#888888',
+            fontSize: '11px',
+            margin: '0 0 4px 0'
+        });
+        this.results.appendChild(note);
+    }
+
+    private format(value: number): string {
+        return String(Number(value.toFixed(2)));
+    }
+}
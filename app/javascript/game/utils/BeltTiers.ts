@@ -0,0 +1,36 @@
+/**
+ * Conveyor belt tiers and their throughput caps (items per minute).
+ */
+
+export interface BeltTier {
+    tier: number;
+    name: string;
+    capacity: number;
+    color: number;
+}
+
+export const BELT_TIERS: BeltTier[] = [
+    { tier: 1, name: 'Mk1', capacity: 60, color: 0x999999 },
+    { tier: 2, name: 'Mk2', capacity: 120, color: 0x88aa66 },
+    { tier: 3, name: 'Mk3', capacity: 270, color: 0x6699cc },
+    { tier: 4, name: 'Mk4', capacity: 480, color: 0xaa77cc },
+    { tier: 5, name: 'Mk5', capacity: 780, color: 0xccaa44 },
+    { tier: 6, name: 'Mk6', capacity: 1200, color: 0xdddddd },
+];
+
+export const DEFAULT_BELT_TIER = 1;
+
+/**
+ * Look up a tier definition (clamped to the valid range)
+ */
+export function getBeltTier(tier: number): BeltTier {
+    const index = Math.min(Math.max(Math.round(tier), 1), BELT_TIERS.length) - 1;
+    return BELT_TIERS[index];
+}
+
+/**
+ * Throughput cap of a belt tier in items per minute
+ */
+export function getBeltCapacity(tier: number): number {
+    return getBeltTier(tier).capacity;
+}
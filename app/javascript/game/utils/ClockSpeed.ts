@@ -0,0 +1,45 @@
+/**
+ * Machine clock speeds (percent) and what they cost.
+ * Above 100% every 50% needs a power shard; a machine has 3 shard slots.
+ */
+
+export const MIN_CLOCK_SPEED = 1;
+export const MAX_CLOCK_SPEED = 250;
+export const DEFAULT_CLOCK_SPEED = 100;
+
+export const POWER_SHARD_SLOTS = 3;
+export const CLOCK_PER_SHARD = 50;
+
+// Power grows with clock^log2(2.5): 250% draws 2.5^1.32 ≈ 3.36 times the base power
+const POWER_EXPONENT = Math.log2(2.5);
+
+/**
+ * Clamp a clock speed to the valid range
+ */
+export function clampClockSpeed(clockSpeed: number): number {
+    if (!Number.isFinite(clockSpeed)) return DEFAULT_CLOCK_SPEED;
+    return Math.min(Math.max(clockSpeed, MIN_CLOCK_SPEED), MAX_CLOCK_SPEED);
+}
+
+/**
+ * Rate multiplier of a clock speed (100% = 1)
+ */
+export function getClockMultiplier(clockSpeed: number): number {
+    return clampClockSpeed(clockSpeed) / 100;
+}
+
+/**
+ * Power draw in MW of a machine running at a clock speed
+ * @param basePower - Draw at 100% (MachineDef.basePower)
+ */
+export function getPowerUsage(basePower: number, clockSpeed: number): number {
+    return basePower * Math.pow(getClockMultiplier(clockSpeed), POWER_EXPONENT);
+}
+
+/**
+ * Power shards a machine needs in its slots to run at a clock speed
+ */
+export function getPowerShards(clockSpeed: number): number {
+    const over = clampClockSpeed(clockSpeed) - DEFAULT_CLOCK_SPEED;
+    return over > 0 ? Math.ceil(over / CLOCK_PER_SHARD - 1e-9) : 0;
+}
@@ -0,0 +1,44 @@
+/**
+ * Minimal typed event emitter.
+ * Used by simulation classes that must run without Phaser (e.g. in Node).
+ */
+
+type Listener = (...args: any[]) => void;
+
+export class EventEmitter<Events extends { [K in keyof Events]: Listener }> {
+    private listeners: Map<keyof Events, Set<Listener>> = new Map();
+
+    /**
+     * Register a listener for an event
+     */
+    public on<K extends keyof Events>(event: K, listener: Events[K]): this {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)!.add(listener);
+        return this;
+    }
+
+    /**
+     * Remove a previously registered listener
+     */
+    public off<K extends keyof Events>(event: K, listener: Events[K]): this {
+        this.listeners.get(event)?.delete(listener);
+        return this;
+    }
+
+    /**
+     * Remove every listener (for all events)
+     */
+    public removeAllListeners(): this {
+        this.listeners.clear();
+        return this;
+    }
+
+    /**
+     * Call all listeners registered for an event
+     */
+    protected emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): void {
+        this.listeners.get(event)?.forEach(listener => listener(...args));
+    }
+}
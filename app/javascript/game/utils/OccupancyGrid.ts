@@ -0,0 +1,82 @@
+/**
+ * Tracks which tiles of the map are covered by which building.
+ * A tile may briefly hold several owners (e.g. while an undo moves nodes one by one),
+ * so every tile keeps a set of owner IDs.
+ */
+
+export interface TileRect {
+    x: number;      // Left tile column
+    y: number;      // Top tile row
+    width: number;  // In tiles
+    height: number;
+}
+
+export class OccupancyGrid {
+    private tiles: Map<number, Set<string>> = new Map();
+    private owners: Map<string, number[]> = new Map(); // Owner ID -> tile keys
+
+    constructor(
+        public readonly width: number,
+        public readonly height: number
+    ) {}
+
+    /**
+     * Place (or move) an owner's footprint
+     */
+    public occupy(ownerId: string, rect: TileRect): void {
+        this.release(ownerId);
+
+        const keys = this.keysOf(rect);
+        keys.forEach(key => {
+            if (!this.tiles.has(key)) this.tiles.set(key, new Set());
+            this.tiles.get(key)!.add(ownerId);
+        });
+        this.owners.set(ownerId, keys);
+    }
+
+    /**
+     * Remove an owner's footprint
+     */
+    public release(ownerId: string): void {
+        this.owners.get(ownerId)?.forEach(key => {
+            const owners = this.tiles.get(key);
+            owners?.delete(ownerId);
+            if (owners?.size === 0) this.tiles.delete(key);
+        });
+        this.owners.delete(ownerId);
+    }
+
+    /**
+     * Check that a footprint lies inside the map and only covers free tiles
+     * @param ignore - Owners whose tiles count as free (e.g. the buildings being moved)
+     */
+    public isFree(rect: TileRect, ignore: Set<string> = new Set()): boolean {
+        if (rect.x < 0 || rect.y < 0 || rect.x + rect.width > this.width || rect.y + rect.height > this.height) {
+            return false;
+        }
+
+        return this.keysOf(rect).every(key => {
+            const owners = this.tiles.get(key);
+            if (!owners) return true;
+            for (const owner of owners) {
+                if (!ignore.has(owner)) return false;
+            }
+            return true;
+        });
+    }
+
+    public clear(): void {
+        this.tiles.clear();
+        this.owners.clear();
+    }
+
+    private keysOf(rect: TileRect): number[] {
+        const keys: number[] = [];
+        for (let y = rect.y; y < rect.y + rect.height; y++) {
+            for (let x = rect.x; x < rect.x + rect.width; x++) {
+                keys.push(y * this.width + x);
+            }
+        }
+        return keys;
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * Pipeline tiers and their flow caps (m³ per minute).
+ */
+
+export interface PipeTier {
+    tier: number;
+    name: string;
+    capacity: number;
+    color: number;
+}
+
+export const PIPE_TIERS: PipeTier[] = [
+    { tier: 1, name: 'Mk1', capacity: 300, color: 0x4477aa },
+    { tier: 2, name: 'Mk2', capacity: 600, color: 0x55aadd },
+];
+
+export const DEFAULT_PIPE_TIER = 1;
+
+/**
+ * Look up a tier definition (clamped to the valid range)
+ */
+export function getPipeTier(tier: number): PipeTier {
+    const index = Math.min(Math.max(Math.round(tier), 1), PIPE_TIERS.length) - 1;
+    return PIPE_TIERS[index];
+}
+
+/**
+ * Flow cap of a pipe tier in m³ per minute
+ */
+export function getPipeCapacity(tier: number): number {
+    return getPipeTier(tier).capacity;
+}
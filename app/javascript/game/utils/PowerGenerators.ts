@@ -0,0 +1,72 @@
+/**
+ * Power generators: what they produce and what they burn.
+ * Burn rates are per minute at 100% clock speed (the fuel's energy divided by the power output);
+ * coal generators also need water. Nuclear power plants take their recipes from the game data.
+ */
+
+export interface GeneratorFuel {
+    item: string;
+    rate: number;                  // Items (or m³) per minute
+}
+
+export interface GeneratorDef {
+    machine: string;
+    powerOutput: number;           // MW at 100% clock speed
+    size: { w: number, h: number };
+    fuels: GeneratorFuel[];        // Loaded as "<fuel> (burning)" recipes
+    water: number;                 // m³ per minute burned alongside any fuel (0 = none)
+}
+
+export const GENERATORS: GeneratorDef[] = [
+    {
+        machine: 'Biomass Burner',
+        powerOutput: 30,
+        size: { w: 2, h: 2 },
+        fuels: [
+            { item: 'Leaves', rate: 120 },
+            { item: 'Wood', rate: 18 },
+            { item: 'Mycelia', rate: 90 },
+            { item: 'Biomass', rate: 10 },
+            { item: 'Solid Biofuel', rate: 4 },
+        ],
+        water: 0
+    },
+    {
+        machine: 'Coal Generator',
+        powerOutput: 75,
+        size: { w: 2, h: 3 },
+        fuels: [
+            { item: 'Coal', rate: 15 },
+            { item: 'Compacted Coal', rate: 75 * 60 / 630 },
+            { item: 'Petroleum Coke', rate: 25 },
+        ],
+        water: 45
+    },
+    {
+        machine: 'Fuel Generator',
+        powerOutput: 250,
+        size: { w: 3, h: 3 },
+        fuels: [
+            { item: 'Fuel', rate: 20 },
+            { item: 'Liquid Biofuel', rate: 20 },
+            { item: 'Turbofuel', rate: 7.5 },
+            { item: 'Rocket Fuel', rate: 250 * 60 / 3600 },
+            { item: 'Ionized Fuel', rate: 3 },
+        ],
+        water: 0
+    },
+    {
+        machine: 'Nuclear Power Plant',
+        powerOutput: 2500,
+        size: { w: 5, h: 6 },
+        fuels: [],
+        water: 0
+    },
+];
+
+/**
+ * Generator definition of a machine (undefined for machines that consume power)
+ */
+export function getGenerator(machine: string): GeneratorDef | undefined {
+    return GENERATORS.find(generator => generator.machine === machine);
+}
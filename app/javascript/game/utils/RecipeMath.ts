@@ -0,0 +1,44 @@
+/**
+ * Rate helpers for recipes.
+ * All rates in the simulation are expressed in items per minute.
+ */
+
+import { RecipeDef } from "../managers/DataManager";
+import { DEFAULT_CLOCK_SPEED, getClockMultiplier } from "./ClockSpeed";
+
+export interface ItemRate {
+    item: string;
+    rate: number; // items per minute
+}
+
+/**
+ * Convert a per-cycle quantity into items per minute.
+ * @param quantity - Items consumed or produced per craft cycle
+ * @param craftTime - Craft cycle duration in seconds
+ */
+export function itemsPerMinute(quantity: number, craftTime: number): number {
+    if (craftTime <= 0) return 0;
+    return quantity * 60 / craftTime;
+}
+
+/**
+ * Input rates of a recipe running at a clock speed (percent, 100% by default)
+ */
+export function getInputRates(recipe: RecipeDef, clockSpeed: number = DEFAULT_CLOCK_SPEED): ItemRate[] {
+    const multiplier = getClockMultiplier(clockSpeed);
+    return recipe.inputs.map(input => ({
+        item: input.item,
+        rate: itemsPerMinute(input.quantity, recipe.craftTime) * multiplier
+    }));
+}
+
+/**
+ * Output rates of a recipe running at a clock speed (percent, 100% by default)
+ */
+export function getOutputRates(recipe: RecipeDef, clockSpeed: number = DEFAULT_CLOCK_SPEED): ItemRate[] {
+    const multiplier = getClockMultiplier(clockSpeed);
+    return recipe.outputs.map(output => ({
+        item: output.item,
+        rate: itemsPerMinute(output.quantity, recipe.craftTime) * multiplier
+    }));
+}
@@ -0,0 +1,86 @@
+/**
+ * Resource nodes on the map and the extractors that mine them.
+ * Extraction rate = extractor base rate (normal node, 100%) × purity × clock speed.
+ */
+
+export type Purity = 'IMPURE' | 'NORMAL' | 'PURE';
+
+export const PURITIES: Purity[] = ['IMPURE', 'NORMAL', 'PURE'];
+
+export const PURITY_LABELS: Record<Purity, string> = {
+    IMPURE: 'Impure',
+    NORMAL: 'Normal',
+    PURE: 'Pure'
+};
+
+export const PURITY_MULTIPLIERS: Record<Purity, number> = {
+    IMPURE: 0.5,
+    NORMAL: 1,
+    PURE: 2
+};
+
+export interface ResourceType {
+    item: string;
+    color: number;
+}
+
+export const RESOURCE_TYPES: ResourceType[] = [
+    { item: 'Iron Ore', color: 0x9a6b5a },
+    { item: 'Copper Ore', color: 0xd9823b },
+    { item: 'Limestone', color: 0xd8d0b0 },
+    { item: 'Coal', color: 0x333333 },
+    { item: 'Caterium Ore', color: 0xe8c547 },
+    { item: 'Raw Quartz', color: 0xe07bd0 },
+    { item: 'Sulfur', color: 0xd6e04a },
+    { item: 'Bauxite', color: 0xb5523b },
+    { item: 'Uranium', color: 0x5fd35f },
+    { item: 'SAM', color: 0x8a4fd8 },
+    { item: 'Crude Oil', color: 0x1a1a2a },
+    { item: 'Water', color: 0x3a7bd5 },
+];
+
+export interface ExtractorDef {
+    machine: string;
+    baseRate: number;              // Items (or m³) per minute on a normal node at 100%
+    basePower: number;             // MW at 100%
+    resources: string[];           // Items it can extract
+}
+
+// Solid resources mined by the miners
+const ORES = RESOURCE_TYPES
+    .map(type => type.item)
+    .filter(item => item !== 'Crude Oil' && item !== 'Water');
+
+export const EXTRACTORS: ExtractorDef[] = [
+    { machine: 'Miner Mk1', baseRate: 60, basePower: 5, resources: ORES },
+    { machine: 'Miner Mk2', baseRate: 120, basePower: 15, resources: ORES },
+    { machine: 'Miner Mk3', baseRate: 240, basePower: 45, resources: ORES },
+    { machine: 'Oil Extractor', baseRate: 120, basePower: 40, resources: ['Crude Oil'] },
+    { machine: 'Water Extractor', baseRate: 120, basePower: 20, resources: ['Water'] },
+];
+
+/**
+ * Extractor definition of a machine (undefined for other machines)
+ */
+export function getExtractor(machine: string): ExtractorDef | undefined {
+    return EXTRACTORS.find(extractor => extractor.machine === machine);
+}
+
+export function getResourceType(item: string): ResourceType | undefined {
+    return RESOURCE_TYPES.find(type => type.item === item);
+}
+
+/**
+ * Items (or m³) per minute an extractor takes from a node at 100% clock speed
+ */
+export function getExtractionRate(machine: string, purity: Purity): number {
+    const extractor = getExtractor(machine);
+    return extractor ? extractor.baseRate * PURITY_MULTIPLIERS[purity] : 0;
+}
+
+/**
+ * Name of the generated recipe an extractor runs on a node
+ */
+export function getExtractionRecipeName(machine: string, item: string, purity: Purity): string {
+    return `${item} (${PURITY_LABELS[purity]}, ${machine})`;
+}
@@ -0,0 +1,259 @@
+/**
+ * Small dense two-phase simplex solver.
+ * Minimizes c·x subject to linear constraints and x >= 0.
+ */
+
+export type ConstraintSense = '<=' | '>=' | '=';
+
+export interface LinearConstraint {
+    coefficients: Map<number, number>; // Variable index -> coefficient (missing = 0)
+    sense: ConstraintSense;
+    rhs: number;
+}
+
+export interface LinearProgram {
+    variableCount: number;
+    objective: number[];               // Cost per variable (minimized)
+    constraints: LinearConstraint[];
+}
+
+export type LinearProgramStatus = 'optimal' | 'infeasible' | 'unbounded';
+
+export interface LinearProgramResult {
+    status: LinearProgramStatus;
+    values: number[];                  // Variable values (zeros unless optimal)
+    objective: number;
+    duals: number[];                   // Per constraint: objective change per unit increase of its rhs
+}
+
+const EPSILON = 1e-9;
+const PIVOT_EPSILON = 1e-7;            // Smaller pivot elements are treated as zero
+const MAX_PIVOTS = 50000;
+const REFACTOR_INTERVAL = 50;          // Pivots between rebuilding the tableau from the original rows
+
+/**
+ * Solve a linear program. Uses Dantzig's rule and falls back to Bland's rule
+ * after a run of degenerate pivots so the method cannot cycle. The tableau is
+ * periodically rebuilt from the original constraints to keep rounding errors
+ * from piling up.
+ */
+export function solveLinearProgram(problem: LinearProgram): LinearProgramResult {
+    const n = problem.variableCount;
+    const m = problem.constraints.length;
+
+    // Normalize every row to a non-negative right-hand side. ">= 0" rows are flipped
+    // too so their slack starts in the basis and they need no artificial variable.
+    const rows = problem.constraints.map(constraint => {
+        const flip = constraint.rhs < 0 || (constraint.rhs === 0 && constraint.sense === '>=');
+        const sign = flip ? -1 : 1;
+        let sense = constraint.sense;
+        if (flip && sense === '<=') sense = '>=';
+        else if (flip && sense === '>=') sense = '<=';
+        return { constraint, sign, sense };
+    });
+
+    // Columns: variables, then one slack/surplus per inequality, then one artificial per >= / = row
+    const slackCount = rows.filter(row => row.sense !== '=').length;
+    const artificialCount = rows.filter(row => row.sense !== '<=').length;
+    const width = n + slackCount + artificialCount;
+    const artificialStart = n + slackCount;
+
+    const original: number[][] = [];
+    const originalRhs: number[] = [];
+    const basis: number[] = [];
+    const unitColumn: number[] = []; // Column with a +1 in this row only (for duals)
+
+    let slack = n;
+    let artificial = artificialStart;
+    rows.forEach(({ constraint, sign, sense }, i) => {
+        const row = new Array(width).fill(0);
+        constraint.coefficients.forEach((value, index) => row[index] = value * sign);
+        originalRhs[i] = constraint.rhs * sign;
+
+        if (sense === '<=') {
+            row[slack] = 1;
+            basis[i] = slack;
+            unitColumn[i] = slack;
+            slack++;
+        } else {
+            if (sense === '>=') {
+                row[slack] = -1;
+                slack++;
+            }
+            row[artificial] = 1;
+            basis[i] = artificial;
+            unitColumn[i] = artificial;
+            artificial++;
+        }
+
+        original.push(row);
+    });
+
+    let tableau = original.map(row => row.slice());
+    let rhs = originalRhs.slice();
+
+    const isArtificial = (column: number) => column >= artificialStart;
+
+    const pivot = (r: number, c: number) => {
+        const pivotRow = tableau[r];
+        const p = pivotRow[c];
+        for (let j = 0; j < width; j++) pivotRow[j] /= p;
+        rhs[r] /= p;
+
+        for (let i = 0; i < m; i++) {
+            if (i === r) continue;
+            const factor = tableau[i][c];
+            if (factor === 0) continue;
+            const row = tableau[i];
+            for (let j = 0; j < width; j++) {
+                if (pivotRow[j] !== 0) row[j] -= factor * pivotRow[j];
+            }
+            rhs[i] -= factor * rhs[r];
+        }
+
+        basis[r] = c;
+    };
+
+    /**
+     * Recompute the tableau as B^-1 A from the original rows (Gauss-Jordan with
+     * partial pivoting). Keeps the current tableau if the basis looks singular.
+     */
+    const refactor = () => {
+        const matrix = original.map((row, i) => [...basis.map(column => row[column]), ...row, originalRhs[i]]);
+
+        for (let k = 0; k < m; k++) {
+            let best = k;
+            for (let i = k + 1; i < m; i++) {
+                if (Math.abs(matrix[i][k]) > Math.abs(matrix[best][k])) best = i;
+            }
+            if (Math.abs(matrix[best][k]) <= EPSILON) return;
+            [matrix[k], matrix[best]] = [matrix[best], matrix[k]];
+
+            const pivotRow = matrix[k];
+            const p = pivotRow[k];
+            for (let j = k; j < pivotRow.length; j++) pivotRow[j] /= p;
+
+            for (let i = 0; i < m; i++) {
+                if (i === k) continue;
+                const factor = matrix[i][k];
+                if (factor === 0) continue;
+                const row = matrix[i];
+                for (let j = k; j < row.length; j++) {
+                    if (pivotRow[j] !== 0) row[j] -= factor * pivotRow[j];
+                }
+            }
+        }
+
+        tableau = matrix.map(row => row.slice(m, m + width));
+        rhs = matrix.map(row => Math.max(0, row[m + width]));
+    };
+
+    const reducedCosts = (costs: number[]): number[] => {
+        const reduced = costs.slice();
+        for (let i = 0; i < m; i++) {
+            const cb = costs[basis[i]];
+            if (cb === 0) continue;
+            const row = tableau[i];
+            for (let j = 0; j < width; j++) {
+                if (row[j] !== 0) reduced[j] -= cb * row[j];
+            }
+        }
+        return reduced;
+    };
+
+    /**
+     * Run simplex iterations for the given costs. Returns false if unbounded.
+     */
+    const optimize = (costs: number[], allowArtificial: boolean): boolean => {
+        let degenerateRun = 0;
+
+        for (let pivots = 0; pivots < MAX_PIVOTS; pivots++) {
+            if (pivots > 0 && pivots % REFACTOR_INTERVAL === 0) refactor();
+
+            const reduced = reducedCosts(costs);
+            const useBland = degenerateRun > 50;
+
+            // Entering column
+            let entering = -1;
+            let best = -1e-7;
+            for (let j = 0; j < width; j++) {
+                if (!allowArtificial && isArtificial(j)) continue;
+                if (reduced[j] < best) {
+                    entering = j;
+                    if (useBland) break;
+                    best = reduced[j];
+                }
+            }
+            if (entering === -1) return true;
+
+            // Leaving row (minimum ratio). Ties go to the lowest basis index under Bland's
+            // rule, otherwise to the largest pivot element to keep the tableau well conditioned.
+            let leaving = -1;
+            let ratio = Infinity;
+            for (let i = 0; i < m; i++) {
+                const a = tableau[i][entering];
+                if (a <= PIVOT_EPSILON) continue;
+                const r = rhs[i] / a;
+                const tie = leaving !== -1 && Math.abs(r - ratio) <= EPSILON;
+                const better = tie && (useBland ? basis[i] < basis[leaving] : a > tableau[leaving][entering]);
+                if (r < ratio - EPSILON || better) {
+                    ratio = r;
+                    leaving = i;
+                }
+            }
+            if (leaving === -1) return false;
+
+            degenerateRun = ratio <= EPSILON ? degenerateRun + 1 : 0;
+            pivot(leaving, entering);
+        }
+
+        return true;
+    };
+
+    const empty = (status: LinearProgramStatus): LinearProgramResult => ({
+        status,
+        values: new Array(n).fill(0),
+        objective: 0,
+        duals: new Array(m).fill(0)
+    });
+
+    // Phase 1: drive the artificial variables to zero
+    if (artificialCount > 0) {
+        const phase1 = new Array(width).fill(0);
+        for (let j = artificialStart; j < width; j++) phase1[j] = 1;
+        optimize(phase1, true);
+        refactor();
+
+        const infeasibility = basis.reduce((sum, column, i) => sum + (isArtificial(column) ? rhs[i] : 0), 0);
+        if (infeasibility > 1e-6) return empty('infeasible');
+
+        // Pivot remaining (zero-valued) artificials out of the basis where possible
+        for (let i = 0; i < m; i++) {
+            if (!isArtificial(basis[i])) continue;
+            const column = tableau[i].findIndex((value, j) => !isArtificial(j) && Math.abs(value) > PIVOT_EPSILON);
+            if (column !== -1) pivot(i, column);
+        }
+    }
+
+    // Phase 2: the real objective
+    const costs = new Array(width).fill(0);
+    problem.objective.forEach((cost, j) => costs[j] = cost);
+    if (!optimize(costs, false)) return empty('unbounded');
+    refactor();
+
+    const values = new Array(n).fill(0);
+    basis.forEach((column, i) => {
+        if (column < n) values[column] = rhs[i];
+    });
+
+    // Dual of row i is c_B B^-1 at its unit column, i.e. minus that column's reduced cost
+    const reduced = reducedCosts(costs);
+    const duals = rows.map((row, i) => -reduced[unitColumn[i]] * row.sign);
+
+    return {
+        status: 'optimal',
+        values,
+        objective: values.reduce((sum, value, j) => sum + value * (problem.objective[j] || 0), 0),
+        duals
+    };
+}
@@ -0,0 +1,20 @@
+/**
+ * Production amplification with somersloops.
+ * Every filled slot adds an equal share of extra output (all slots filled doubles it)
+ * while the inputs stay the same. Power grows with the square of the output multiplier.
+ */
+
+/**
+ * Output multiplier of a machine with some of its somersloop slots filled
+ */
+export function getAmplification(somersloops: number, slots: number): number {
+    if (slots <= 0) return 1;
+    return 1 + Math.min(Math.max(somersloops, 0), slots) / slots;
+}
+
+/**
+ * Power multiplier of an amplified machine (4x with all slots filled)
+ */
+export function getAmplificationPower(somersloops: number, slots: number): number {
+    return Math.pow(getAmplification(somersloops, slots), 2);
+}
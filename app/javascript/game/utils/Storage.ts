@@ -0,0 +1,61 @@
+/**
+ * Storage containers and fluid buffers: they pass items through and hold what their
+ * output cannot take. Containers count in inventory slots (one stack of an item per slot),
+ * fluid buffers in m³.
+ */
+
+import { TransportType } from "../managers/DataManager";
+
+export interface StorageDef {
+    machine: string;
+    transport: TransportType;      // Containers take belts, buffers pipes
+    slots: number;                 // Inventory slots (containers)
+    volume: number;                // m³ (fluid buffers)
+    size: { w: number, h: number };
+}
+
+export const STORAGES: StorageDef[] = [
+    { machine: 'Storage', transport: 'belt', slots: 24, volume: 0, size: { w: 1, h: 1 } },
+    { machine: 'Industrial Storage', transport: 'belt', slots: 48, volume: 0, size: { w: 2, h: 2 } },
+    { machine: 'Fluid Buffer', transport: 'pipe', slots: 0, volume: 400, size: { w: 1, h: 1 } },
+    { machine: 'Industrial Fluid Buffer', transport: 'pipe', slots: 0, volume: 2400, size: { w: 2, h: 2 } },
+];
+
+/**
+ * What a storage holds and how full it is (simulation state, see StorageSystem)
+ */
+export interface StorageLevel {
+    items: Map<string, number>;    // Item -> count (or m³)
+    fill: number;                  // 0 = empty, 1 = full
+}
+
+/**
+ * Storage definition of a machine (undefined for other machines)
+ */
+export function getStorage(machine: string): StorageDef | undefined {
+    return STORAGES.find(storage => storage.machine === machine);
+}
+
+/**
+ * How many of one item a storage holds when filled with nothing else
+ * @param stackSize - Items per slot
+ */
+export function getStorageCapacity(storage: StorageDef, stackSize: number): number {
+    return storage.transport === 'pipe' ? storage.volume : storage.slots * stackSize;
+}
+
+/**
+ * Share of a storage taken up by its contents (each item fills slots by its own stack size)
+ * @param stackSizeOf - Items per slot of an item
+ */
+export function getStorageFill(
+    storage: StorageDef,
+    items: Map<string, number>,
+    stackSizeOf: (item: string) => number
+): number {
+    let fill = 0;
+    items.forEach((count, item) => {
+        fill += count / getStorageCapacity(storage, stackSizeOf(item));
+    });
+    return fill;
+}
@@ -0,0 +1,130 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { GraphManager } from "../../app/javascript/game/managers/GraphManager";
+import { FlowSystem } from "../../app/javascript/game/systems/FlowSystem";
+import { loadGameData, addRecipeFactory, addSpawn, outputOf, inputOf } from "./helpers";
+
+loadGameData();
+
+// A smelter on Iron Ingot takes 30 Iron Ore/min
+const SMELTER_INTAKE = 30;
+
+test('a smelter with its full supply runs at full efficiency', () => {
+    const graph = new GraphManager();
+    const spawn = addSpawn(graph, 'Iron Ore', SMELTER_INTAKE);
+    const smelter = addRecipeFactory(graph, 'Iron Ingot', 200);
+    const edge = graph.connect(outputOf(graph, spawn), inputOf(graph, smelter))!;
+
+    const result = new FlowSystem().solve(graph);
+    assert.equal(result.factoryEfficiency.get(smelter.id), 1);
+    assert.equal(result.beltFlows.get(edge.id)!.rate, SMELTER_INTAKE);
+});
+
+test('half the supply gives half the efficiency', () => {
+    const graph = new GraphManager();
+    const spawn = addSpawn(graph, 'Iron Ore', SMELTER_INTAKE / 2);
+    const smelter = addRecipeFactory(graph, 'Iron Ingot', 200);
+    graph.connect(outputOf(graph, spawn), inputOf(graph, smelter));
+
+    const result = new FlowSystem().solve(graph);
+    assert.equal(result.factoryEfficiency.get(smelter.id), 0.5);
+});
+
+test('a junction splits evenly over its outputs', () => {
+    const graph = new GraphManager();
+    const spawn = addSpawn(graph, 'Iron Ore', SMELTER_INTAKE);
+    const junction = graph.addJunction(100, 0);
+    const smelterA = addRecipeFactory(graph, 'Iron Ingot', 200, 0);
+    const smelterB = addRecipeFactory(graph, 'Iron Ingot', 200, 200);
+    const [right, bottom] = graph.getPorts(junction.id, 'OUTPUT');
+
+    graph.connect(outputOf(graph, spawn), graph.getPorts(junction.id, 'INPUT')[0].id);
+    const toA = graph.connect(right.id, inputOf(graph, smelterA))!;
+    const toB = graph.connect(bottom.id, inputOf(graph, smelterB))!;
+
+    const result = new FlowSystem().solve(graph);
+    assert.equal(result.beltFlows.get(toA.id)!.rate, SMELTER_INTAKE / 2);
+    assert.equal(result.beltFlows.get(toB.id)!.rate, SMELTER_INTAKE / 2);
+    assert.equal(result.factoryEfficiency.get(smelterA.id), 0.5);
+    assert.equal(result.factoryEfficiency.get(smelterB.id), 0.5);
+});
+
+test('a factory that cannot run does not starve one that can', () => {
+    const graph = new GraphManager();
+    const spawn = addSpawn(graph, 'Iron Ore', 40);
+    const junction = graph.addJunction(100, 0);
+    const smelter = addRecipeFactory(graph, 'Iron Ingot', 200, 0);
+    const foundry = addRecipeFactory(graph, 'Steel Ingot', 200, 200); // Coal input left open
+    const [right, bottom] = graph.getPorts(junction.id, 'OUTPUT');
+
+    graph.connect(outputOf(graph, spawn), graph.getPorts(junction.id, 'INPUT')[0].id);
+    const toSmelter = graph.connect(right.id, inputOf(graph, smelter))!;
+    const toFoundry = graph.connect(bottom.id, inputOf(graph, foundry))!;
+
+    const result = new FlowSystem().solve(graph);
+    assert.equal(result.factoryEfficiency.get(foundry.id), 0);
+    assert.equal(result.beltFlows.get(toFoundry.id)!.rate, 0);
+    assert.equal(result.beltFlows.get(toSmelter.id)!.rate, SMELTER_INTAKE);
+    assert.equal(result.factoryEfficiency.get(smelter.id), 1);
+});
+
+test('a stopped factory takes nothing and does not count as supply', () => {
+    const graph = new GraphManager();
+    const spawn = addSpawn(graph, 'Iron Ore', 40);
+    const junction = graph.addJunction(100, 0);
+    const running = addRecipeFactory(graph, 'Iron Ingot', 200, 0);
+    const stopped = addRecipeFactory(graph, 'Iron Ingot', 200, 200);
+    const [right, bottom] = graph.getPorts(junction.id, 'OUTPUT');
+
+    graph.connect(outputOf(graph, spawn), graph.getPorts(junction.id, 'INPUT')[0].id);
+    const toRunning = graph.connect(right.id, inputOf(graph, running))!;
+    const toStopped = graph.connect(bottom.id, inputOf(graph, stopped))!;
+
+    const result = new FlowSystem().solve(graph, new Set([stopped.id]));
+    assert.equal(result.beltFlows.get(toStopped.id)!.rate, 0);
+    assert.equal(result.beltFlows.get(toRunning.id)!.rate, SMELTER_INTAKE);
+    assert.equal(result.factoryEfficiency.get(running.id), 1);
+});
+
+test('a junction only sends an item to the outputs that take it', () => {
+    const graph = new GraphManager();
+    const spawn = addSpawn(graph, 'Iron Ore', SMELTER_INTAKE);
+    const junction = graph.addJunction(100, 0);
+    const smelter = addRecipeFactory(graph, 'Iron Ingot', 200, 0);
+    const constructor = addRecipeFactory(graph, 'Iron Rod', 200, 200);
+    const [right, bottom] = graph.getPorts(junction.id, 'OUTPUT');
+
+    // Wired up from the consumers back, so the belt to the constructor is allowed
+    const toSmelter = graph.connect(right.id, inputOf(graph, smelter))!;
+    const toConstructor = graph.connect(bottom.id, inputOf(graph, constructor))!;
+    graph.connect(outputOf(graph, spawn), graph.getPorts(junction.id, 'INPUT')[0].id);
+
+    const result = new FlowSystem().solve(graph);
+    assert.equal(result.beltFlows.get(toSmelter.id)!.rate, SMELTER_INTAKE);
+    assert.equal(result.beltFlows.get(toConstructor.id)!.rate, 0);
+    assert.equal(result.factoryEfficiency.get(smelter.id), 1);
+});
+
+test('a mixed belt hands each consumer its own item', () => {
+    const graph = new GraphManager();
+    const ore = addSpawn(graph, 'Iron Ore', SMELTER_INTAKE);
+    const ingots = addSpawn(graph, 'Iron Ingot', 15, 0, 100);
+    const merger = graph.addJunction(100, 0);
+    const splitter = graph.addJunction(200, 0);
+    const smelter = addRecipeFactory(graph, 'Iron Ingot', 300, 0);
+    const constructor = addRecipeFactory(graph, 'Iron Rod', 300, 200);
+    const [right, bottom] = graph.getPorts(splitter.id, 'OUTPUT');
+
+    const toSmelter = graph.connect(right.id, inputOf(graph, smelter))!;
+    const toConstructor = graph.connect(bottom.id, inputOf(graph, constructor))!;
+    graph.connect(graph.getPorts(merger.id, 'OUTPUT')[0].id, graph.getPorts(splitter.id, 'INPUT')[0].id);
+    const [first, second] = graph.getPorts(merger.id, 'INPUT');
+    graph.connect(outputOf(graph, ore), first.id);
+    graph.connect(outputOf(graph, ingots), second.id);
+
+    const result = new FlowSystem().solve(graph);
+    assert.deepEqual(Array.from(result.beltFlows.get(toSmelter.id)!.items), [['Iron Ore', SMELTER_INTAKE]]);
+    assert.deepEqual(Array.from(result.beltFlows.get(toConstructor.id)!.items), [['Iron Ingot', 15]]);
+    assert.equal(result.factoryEfficiency.get(smelter.id), 1);
+    assert.equal(result.factoryEfficiency.get(constructor.id), 1);
+});
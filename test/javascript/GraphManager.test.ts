@@ -0,0 +1,192 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { GraphManager } from "../../app/javascript/game/managers/GraphManager";
+import { CommandHistory } from "../../app/javascript/game/managers/CommandHistory";
+import { loadGameData, addRecipeFactory, addSpawn, outputOf, inputOf } from "./helpers";
+
+loadGameData();
+
+test('connect joins an output to an input and disconnect frees both ports', () => {
+    const graph = new GraphManager();
+    const smelter = addRecipeFactory(graph, 'Iron Ingot');
+    const constructor = addRecipeFactory(graph, 'Iron Plate', 200);
+
+    const edge = graph.connect(outputOf(graph, smelter), inputOf(graph, constructor));
+    assert.ok(edge);
+    assert.equal(graph.getPort(edge.from)!.edgeId, edge.id);
+    assert.equal(graph.getPort(edge.to)!.edgeId, edge.id);
+
+    // A port takes one belt
+    assert.equal(graph.canJoin(outputOf(graph, smelter), inputOf(graph, constructor)), false);
+
+    graph.disconnect(edge.id);
+    assert.equal(graph.getEdges().length, 0);
+    assert.equal(graph.getPort(edge.from)!.edgeId, null);
+    assert.equal(graph.getPort(edge.to)!.edgeId, null);
+});
+
+test('canJoin only runs belts from outputs to inputs of the same transport', () => {
+    const graph = new GraphManager();
+    const smelter = addRecipeFactory(graph, 'Iron Ingot');
+    const constructor = addRecipeFactory(graph, 'Iron Plate', 200);
+    const pipeJunction = graph.addJunction(400, 0, 'pipe');
+
+    assert.equal(graph.canJoin(inputOf(graph, constructor), outputOf(graph, smelter)), false);
+    assert.equal(graph.canJoin(inputOf(graph, smelter), inputOf(graph, constructor)), false);
+    assert.equal(graph.canJoin(outputOf(graph, smelter), graph.getPorts(pipeJunction.id, 'INPUT')[0].id), false);
+    assert.equal(graph.canJoin(outputOf(graph, smelter), inputOf(graph, smelter)), false);
+});
+
+test('canConnect refuses items the input does not take', () => {
+    const graph = new GraphManager();
+    const smelter = addRecipeFactory(graph, 'Iron Ingot');
+    const wire = addRecipeFactory(graph, 'Wire', 200);
+
+    assert.equal(graph.canJoin(outputOf(graph, smelter), inputOf(graph, wire)), true);
+    assert.equal(graph.canConnect(outputOf(graph, smelter), inputOf(graph, wire)), false);
+    assert.deepEqual(graph.getRefusedItems(outputOf(graph, smelter), inputOf(graph, wire)), ['Iron Ingot']);
+    assert.equal(graph.connect(outputOf(graph, smelter), inputOf(graph, wire)), null);
+});
+
+test('canConnect follows belts through junctions in both directions', () => {
+    const graph = new GraphManager();
+    const spawn = addSpawn(graph, 'Iron Ore', 60);
+    const junction = graph.addJunction(100, 0);
+    const constructor = addRecipeFactory(graph, 'Iron Plate', 200); // Takes Iron Ingot
+    const [junctionIn] = graph.getPorts(junction.id, 'INPUT');
+    const [junctionOut] = graph.getPorts(junction.id, 'OUTPUT');
+
+    // Downstream: the junction already feeds the constructor
+    graph.connect(junctionOut.id, inputOf(graph, constructor));
+    assert.deepEqual(graph.getItemsAcceptedAt(junctionIn.id), ['Iron Ingot']);
+    assert.equal(graph.canConnect(outputOf(graph, spawn), junctionIn.id), false);
+
+    // Upstream: the ore already reaches the junction
+    graph.disconnect(graph.getEdgesOf(constructor.id)[0].id);
+    graph.connect(outputOf(graph, spawn), junctionIn.id);
+    assert.deepEqual(graph.getItemsFrom(junctionOut.id), ['Iron Ore']);
+    assert.equal(graph.canConnect(junctionOut.id, inputOf(graph, constructor)), false);
+});
+
+test('canConnect applies the filters of splitter outputs', () => {
+    const graph = new GraphManager();
+    const ore = addSpawn(graph, 'Iron Ore', 30);
+    const ingots = addSpawn(graph, 'Iron Ingot', 30, 0, 100);
+    const merger = graph.addJunction(100, 0);
+    const splitter = graph.addSplitter('Smart Splitter', 200, 0);
+    const smelter = addRecipeFactory(graph, 'Iron Ingot', 300, 0);
+    const constructor = addRecipeFactory(graph, 'Iron Plate', 300, 200);
+    const [top, right, bottom] = graph.getPorts(splitter.id, 'OUTPUT');
+
+    graph.connect(outputOf(graph, ore), graph.getPorts(merger.id, 'INPUT')[0].id);
+    graph.connect(outputOf(graph, ingots), graph.getPorts(merger.id, 'INPUT')[1].id);
+    graph.connect(graph.getPorts(merger.id, 'OUTPUT')[0].id, graph.getPorts(splitter.id, 'INPUT')[0].id);
+
+    // ANY lets both items through
+    assert.deepEqual(graph.getItemsFrom(right.id)!.sort(), ['Iron Ingot', 'Iron Ore']);
+    assert.equal(graph.canConnect(right.id, inputOf(graph, smelter)), false);
+
+    graph.setPortFilters(top.id, ['Iron Ore']);
+    graph.setPortFilters(bottom.id, ['ANY_UNDEFINED']);
+    assert.deepEqual(graph.getItemsFrom(top.id), ['Iron Ore']);
+    assert.deepEqual(graph.getItemsFrom(bottom.id), ['Iron Ingot']);
+    assert.ok(graph.connect(top.id, inputOf(graph, smelter)));
+    assert.ok(graph.connect(bottom.id, inputOf(graph, constructor)));
+});
+
+test('belt endpoints are removed with their last belt', () => {
+    const graph = new GraphManager();
+    const smelter = addRecipeFactory(graph, 'Iron Ingot');
+    const endpoint = graph.addEndpoint(100, 0);
+
+    const edge = graph.connect(outputOf(graph, smelter), endpoint.id)!;
+    assert.equal(graph.getPorts(endpoint.id).length, 1);
+
+    graph.disconnect(edge.id);
+    assert.equal(graph.getNode(endpoint.id), undefined);
+});
+
+test('undo and redo restore belts through setState', () => {
+    const graph = new GraphManager();
+    const history = new CommandHistory(graph);
+    const smelter = addRecipeFactory(graph, 'Iron Ingot');
+    const constructor = addRecipeFactory(graph, 'Iron Plate', 200);
+    history.commit('Place');
+
+    const edge = graph.connect(outputOf(graph, smelter), inputOf(graph, constructor))!;
+    history.commit('Connect');
+
+    const events: string[] = [];
+    graph.on('edgeAdded', () => events.push('edgeAdded'));
+    graph.on('edgeRemoved', () => events.push('edgeRemoved'));
+    graph.on('nodeRemoved', () => events.push('nodeRemoved'));
+
+    assert.equal(history.undo()?.label, 'Connect');
+    assert.equal(graph.getEdges().length, 0);
+    assert.equal(graph.getPort(edge.from)!.edgeId, null);
+
+    assert.equal(history.redo()?.label, 'Connect');
+    assert.equal(graph.getEdge(edge.id)?.to, edge.to);
+    assert.equal(graph.getPort(edge.to)!.edgeId, edge.id);
+
+    // Only the belt changed: the factories stay
+    assert.deepEqual(events, ['edgeRemoved', 'edgeAdded']);
+});
+
+test('setState only reports what differs', () => {
+    const graph = new GraphManager();
+    const smelter = addRecipeFactory(graph, 'Iron Ingot');
+    const before = graph.getState();
+
+    graph.moveNode(smelter.id, 64, 32);
+    graph.setClockSpeed(smelter.id, 150);
+    const after = graph.getState();
+
+    const events: string[] = [];
+    (['nodeAdded', 'nodeRemoved', 'nodeMoved', 'portsChanged', 'nodeChanged'] as const)
+        .forEach(event => graph.on(event, () => events.push(event)));
+
+    graph.setState(before);
+    assert.deepEqual(events.sort(), ['nodeChanged', 'nodeMoved']);
+    assert.equal(graph.getNode(smelter.id)!.clockSpeed, 100);
+
+    graph.setState(after);
+    assert.equal(graph.getNode(smelter.id)!.x, 64);
+});
+
+test('undoing a filter edit reports the splitter as changed, not reshaped', () => {
+    const graph = new GraphManager();
+    const history = new CommandHistory(graph);
+    const splitter = graph.addSplitter('Smart Splitter', 0, 0);
+    history.commit('Place');
+
+    const output = graph.getPorts(splitter.id, 'OUTPUT')[0];
+    graph.setPortFilters(output.id, ['Iron Ore']);
+    history.commit('Filter');
+
+    const events: string[] = [];
+    (['nodeAdded', 'nodeRemoved', 'portsChanged', 'nodeChanged'] as const)
+        .forEach(event => graph.on(event, () => events.push(event)));
+
+    history.undo();
+    assert.deepEqual(graph.getPort(output.id)!.filters, []);
+    history.redo();
+    assert.deepEqual(graph.getPort(output.id)!.filters, ['Iron Ore']);
+    assert.deepEqual(events, ['nodeChanged', 'nodeChanged']);
+});
+
+test('rotateNode turns the footprint and every port side', () => {
+    const graph = new GraphManager();
+    const constructor = addRecipeFactory(graph, 'Iron Plate');
+    const { gridWidth, gridHeight } = constructor;
+    const sides = graph.getPorts(constructor.id).map(port => port.side);
+
+    graph.rotateNode(constructor.id);
+    assert.equal(constructor.gridWidth, gridHeight);
+    assert.equal(constructor.gridHeight, gridWidth);
+    assert.notDeepEqual(graph.getPorts(constructor.id).map(port => port.side), sides);
+
+    graph.rotateNode(constructor.id, 3);
+    assert.equal(constructor.rotation, 0);
+    assert.deepEqual(graph.getPorts(constructor.id).map(port => port.side), sides);
+});
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { GraphManager } from "../../app/javascript/game/managers/GraphManager";
+import { SaveManager } from "../../app/javascript/game/managers/SaveManager";
+import { DEFAULT_BELT_TIER } from "../../app/javascript/game/utils/BeltTiers";
+import { loadGameData, addRecipeFactory, outputOf, inputOf } from "./helpers";
+
+loadGameData();
+
+// A layout as the first release of version 1 wrote it: no rotation, clock speed,
+// junction sides, wires, mode or level
+const FIRST_RELEASE = JSON.stringify({
+    format: 'flow-factory-layout',
+    version: 1,
+    savedAt: '2024-01-01T12:00:00.000Z',
+    nodes: [
+        { id: 'n1', kind: 'FACTORY', x: 320, y: 256, machine: 'Smelter', gridWidth: 1, gridHeight: 2,
+            recipe: 'Iron Ingot', inputs: 1, outputs: 1 },
+        { id: 'n2', kind: 'JUNCTION', x: 480, y: 256 },
+        { id: 'n3', kind: 'ENDPOINT', x: 640, y: 256 }
+    ],
+    edges: [
+        { from: { node: 'n1', port: 1 }, to: { node: 'n2', port: 0 }, layer: 0, tier: 1 },
+        { from: { node: 'n2', port: 1 }, to: { node: 'n3', port: null }, layer: 0, tier: 2 }
+    ]
+});
+
+test('a first release version 1 layout loads with defaults for every later field', () => {
+    const save = SaveManager.parse(FIRST_RELEASE);
+    assert.equal(save.mode, undefined);
+    assert.equal(save.levelData, undefined);
+
+    const graph = new GraphManager();
+    assert.equal(SaveManager.restore(graph, save), 0);
+
+    const smelter = graph.getNodes().find(node => node.kind === 'FACTORY')!;
+    assert.equal(smelter.recipe?.name, 'Iron Ingot');
+    assert.equal(smelter.rotation, 0);
+    assert.equal(smelter.clockSpeed, 100);
+    assert.equal(smelter.somersloops, 0);
+    assert.deepEqual([smelter.gridWidth, smelter.gridHeight], [1, 2]);
+
+    const junction = graph.getNodes().find(node => node.kind === 'JUNCTION')!;
+    assert.equal(graph.getTransport(junction.ports[0]), 'belt');
+    assert.deepEqual(graph.getPorts(junction.id, 'OUTPUT').map(port => port.side), ['RIGHT', 'BOTTOM']);
+
+    assert.deepEqual(graph.getEdges().map(edge => edge.tier).sort(), [1, 2]);
+    assert.equal(graph.getNodes().filter(node => node.kind === 'ENDPOINT').length, 1);
+    assert.equal(graph.getWires().length, 0);
+});
+
+test('a saved layout restores to the same graph', () => {
+    const graph = new GraphManager();
+    const smelter = addRecipeFactory(graph, 'Iron Ingot');
+    const constructor = addRecipeFactory(graph, 'Iron Plate', 200);
+    graph.setClockSpeed(smelter.id, 150);
+    graph.connect(outputOf(graph, smelter), inputOf(graph, constructor), 0, DEFAULT_BELT_TIER + 1);
+
+    const level = { id: 'level_01', targetItem: 'Iron Plate', targetRate: 20 };
+    const save = SaveManager.parse(JSON.stringify(SaveManager.serialize(graph, 'CAMPAIGN', level)));
+    assert.equal(save.mode, 'CAMPAIGN');
+    assert.deepEqual(save.levelData, level);
+
+    const restored = new GraphManager();
+    assert.equal(SaveManager.restore(restored, save), 0);
+    const recipes = restored.getNodes().map(node => node.recipe?.name).sort();
+    assert.deepEqual(recipes, ['Iron Ingot', 'Iron Plate']);
+    assert.equal(restored.getNodes().find(node => node.recipe?.name === 'Iron Ingot')!.clockSpeed, 150);
+    assert.equal(restored.getEdges()[0].tier, DEFAULT_BELT_TIER + 1);
+});
+
+test('parse refuses newer versions and other documents', () => {
+    const save = JSON.parse(FIRST_RELEASE);
+    assert.throws(() => SaveManager.parse(JSON.stringify({ ...save, version: 2 })), /Unsupported save version/);
+    assert.throws(() => SaveManager.parse(JSON.stringify({ ...save, format: 'other' })), /Not a Flow Factory layout/);
+});
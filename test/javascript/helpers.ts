@@ -0,0 +1,38 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { DataManager } from "../../app/javascript/game/managers/DataManager";
+import { GraphManager, GraphNode } from "../../app/javascript/game/managers/GraphManager";
+
+/**
+ * Load the game data the browser serves from public/data (tests run from the repo root)
+ */
+export function loadGameData(): DataManager {
+    const data = DataManager.getInstance();
+    data.loadData(JSON.parse(readFileSync(join(process.cwd(), 'public/data/satisfactory_data.json'), 'utf8')));
+    return data;
+}
+
+/**
+ * Add a factory running a recipe from the game data
+ */
+export function addRecipeFactory(graph: GraphManager, recipe: string, x: number = 0, y: number = 0): GraphNode {
+    const data = DataManager.getInstance();
+    const def = data.getRecipe(recipe)!;
+    const size = data.getMachineSize(def.machine);
+    return graph.addFactory(def.machine, x, y, size.w, size.h, def);
+}
+
+/**
+ * Add a spawn putting out an item at a fixed rate (items per minute)
+ */
+export function addSpawn(graph: GraphManager, item: string, rate: number, x: number = 0, y: number = 0): GraphNode {
+    return graph.addFactory('Spawn', x, y, 1, 1, DataManager.getInstance().getSpawnRecipe(item, rate));
+}
+
+export function outputOf(graph: GraphManager, node: GraphNode, index: number = 0): string {
+    return graph.getPorts(node.id, 'OUTPUT')[index].id;
+}
+
+export function inputOf(graph: GraphManager, node: GraphNode, index: number = 0): string {
+    return graph.getPorts(node.id, 'INPUT')[index].id;
+}